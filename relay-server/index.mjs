@@ -0,0 +1,26 @@
+import { RealtimeRelay } from './lib/relay.mjs';
+import dotenv from 'dotenv';
+dotenv.config({ path: ['.env.local', '.env'] });
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+if (!OPENAI_API_KEY) {
+  console.error(
+    `Environment variable "OPENAI_API_KEY" is required.\n` +
+      `Please set it in your .env file.`
+  );
+  process.exit(1);
+}
+
+const PORT = parseInt(process.env.RELAY_PORT || '') || 8081;
+
+// Comma separated list of origins allowed to use the relay, e.g. https://example.com
+const ALLOWED_ORIGINS = (process.env.RELAY_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const relay = new RealtimeRelay(OPENAI_API_KEY, {
+  allowedOrigins: ALLOWED_ORIGINS,
+});
+relay.listen(PORT);
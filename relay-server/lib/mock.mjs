@@ -0,0 +1,486 @@
+import { WebSocketServer } from 'ws';
+
+// the console plays 24kHz 16-bit mono PCM
+const SAMPLE_RATE = 24000;
+// spoken length of each word of a scripted message
+const WORD_MS = 240;
+
+/**
+ * @typedef {{ type: 'message', text: string, audio?: boolean }} MessageOutput
+ * @typedef {{ type: 'function_call', name: string, arguments?: object }} FunctionCallOutput
+ * @typedef {{ user?: string, outputs: Array<MessageOutput | FunctionCallOutput> }} ScriptTurn
+ * @typedef {{ turns: ScriptTurn[], fallback?: ScriptTurn }} Script
+ */
+
+/**
+ * Checks a script before serving it so mistakes show up at startup, not mid-conversation
+ * @param {any} script
+ * @returns {Script}
+ */
+export function validateScript(script) {
+  if (!script || !Array.isArray(script.turns)) {
+    throw new Error('A mock script needs a "turns" array');
+  }
+  const turns = script.fallback ? script.turns.concat(script.fallback) : script.turns;
+  turns.forEach((turn, index) => {
+    if (!Array.isArray(turn.outputs) || turn.outputs.length === 0) {
+      throw new Error(`Turn ${index + 1} needs at least one output`);
+    }
+    for (const output of turn.outputs) {
+      if (output.type === 'message' && typeof output.text === 'string') {
+        continue;
+      }
+      if (output.type === 'function_call' && typeof output.name === 'string') {
+        continue;
+      }
+      throw new Error(
+        `Turn ${index + 1} has an invalid output, expected a message with text or a function_call with a name`
+      );
+    }
+  });
+  return script;
+}
+
+/**
+ * A short tone per word, pitched by the word so speech is told apart by ear
+ * @param {string} word
+ * @returns {string} base64 PCM16
+ */
+function synthesizeWord(word) {
+  const samples = Math.floor((SAMPLE_RATE * WORD_MS) / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  let hash = 0;
+  for (let i = 0; i < word.length; i++) {
+    hash = (hash * 31 + word.charCodeAt(i)) % 200;
+  }
+  const frequency = 220 + hash;
+  for (let i = 0; i < samples; i++) {
+    // fade in and out so words do not click
+    const envelope = Math.sin((Math.PI * i) / samples);
+    const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.2;
+    pcm.writeInt16LE(Math.round(value * 0x7fff), i * 2);
+  }
+  return pcm.toString('base64');
+}
+
+/**
+ * One client connection, with its own session, conversation and place in the script
+ */
+class MockSession {
+  /**
+   * @param {import('ws').WebSocket} ws
+   * @param {Script} script
+   * @param {{ pace: number, vadMs: number, log: (...args: any[]) => void }} options
+   */
+  constructor(ws, script, { pace, vadMs, log }) {
+    this.ws = ws;
+    this.script = script;
+    this.pace = pace;
+    this.vadMs = vadMs;
+    this.log = log;
+    this.ids = 0;
+    this.turn = 0;
+    this.lastItemId = null;
+    this.audioBytes = 0;
+    this.response = null;
+    this.closed = false;
+    this.session = {
+      id: this.id('sess'),
+      object: 'realtime.session',
+      model: 'mock-realtime',
+      modalities: ['text', 'audio'],
+      instructions: '',
+      voice: 'alloy',
+      input_audio_format: 'pcm16',
+      output_audio_format: 'pcm16',
+      input_audio_transcription: null,
+      turn_detection: null,
+      tools: [],
+      tool_choice: 'auto',
+      temperature: 0.8,
+      max_response_output_tokens: 'inf',
+    };
+    ws.on('message', (data) => this.receive(data));
+    ws.on('close', () => {
+      this.closed = true;
+    });
+    this.send('session.created', { session: this.session });
+  }
+
+  /**
+   * Sequential ids so runs against the same script are identical
+   * @param {string} prefix
+   */
+  id(prefix) {
+    this.ids += 1;
+    return `${prefix}_mock_${String(this.ids).padStart(6, '0')}`;
+  }
+
+  send(type, payload = {}) {
+    if (this.closed) {
+      return;
+    }
+    this.ws.send(JSON.stringify({ event_id: this.id('event'), type, ...payload }));
+  }
+
+  sendError(message, event) {
+    this.log(`Error: ${message}`);
+    this.send('error', {
+      error: {
+        type: 'invalid_request_error',
+        code: null,
+        message,
+        param: null,
+        event_id: event?.event_id ?? null,
+      },
+    });
+  }
+
+  wait() {
+    return new Promise((resolve) => setTimeout(resolve, this.pace));
+  }
+
+  receive(data) {
+    let event;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      this.sendError(`Unable to parse event: ${data}`);
+      return;
+    }
+    if (event.type !== 'input_audio_buffer.append') {
+      this.log(`Received "${event.type}"`);
+    }
+    switch (event.type) {
+      case 'session.update':
+        this.updateSession(event);
+        break;
+      case 'input_audio_buffer.append':
+        this.appendAudio(event);
+        break;
+      case 'input_audio_buffer.commit':
+        this.commitAudio();
+        break;
+      case 'input_audio_buffer.clear':
+        this.audioBytes = 0;
+        this.send('input_audio_buffer.cleared');
+        break;
+      case 'conversation.item.create':
+        this.createItem(event);
+        break;
+      case 'conversation.item.truncate':
+        this.send('conversation.item.truncated', {
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        break;
+      case 'conversation.item.delete':
+        this.send('conversation.item.deleted', { item_id: event.item_id });
+        break;
+      case 'response.create':
+        if (this.response) {
+          this.sendError('Conversation already has an active response', event);
+        } else {
+          this.respond();
+        }
+        break;
+      case 'response.cancel':
+        if (this.response) {
+          this.response.cancelled = true;
+        }
+        break;
+      default:
+        this.sendError(`The mock server does not handle "${event.type}"`, event);
+    }
+  }
+
+  updateSession(event) {
+    this.session = { ...this.session, ...event.session };
+    const scripted = this.script.turns
+      .concat(this.script.fallback || [])
+      .flatMap((turn) => turn.outputs)
+      .filter((output) => output.type === 'function_call');
+    const names = (this.session.tools || []).map((tool) => tool.name);
+    for (const { name } of scripted) {
+      if (!names.includes(name)) {
+        this.log(`Warning: the script calls "${name}" but the client did not register it`);
+      }
+    }
+    this.send('session.updated', { session: this.session });
+  }
+
+  /**
+   * With server VAD, every vadMs of audio the user sends counts as one spoken turn
+   */
+  appendAudio(event) {
+    this.audioBytes += Buffer.byteLength(event.audio || '', 'base64');
+    const vad = this.session.turn_detection?.type === 'server_vad';
+    const vadBytes = (SAMPLE_RATE * 2 * this.vadMs) / 1000;
+    if (!vad || this.response || this.audioBytes < vadBytes) {
+      return;
+    }
+    const itemId = this.id('item');
+    const audioEndMs = Math.round((this.audioBytes / 2 / SAMPLE_RATE) * 1000);
+    this.send('input_audio_buffer.speech_started', { audio_start_ms: 0, item_id: itemId });
+    this.send('input_audio_buffer.speech_stopped', { audio_end_ms: audioEndMs, item_id: itemId });
+    this.commitAudio(itemId);
+    this.respond();
+  }
+
+  commitAudio(itemId = this.id('item')) {
+    const previousItemId = this.lastItemId;
+    this.audioBytes = 0;
+    this.lastItemId = itemId;
+    this.send('input_audio_buffer.committed', { previous_item_id: previousItemId, item_id: itemId });
+    this.send('conversation.item.created', {
+      previous_item_id: previousItemId,
+      item: {
+        id: itemId,
+        object: 'realtime.item',
+        type: 'message',
+        status: 'completed',
+        role: 'user',
+        content: [{ type: 'input_audio', transcript: null }],
+      },
+    });
+    // what the user "said" comes from the turn about to be answered
+    const transcript = this.nextTurn(false).user || '';
+    this.send('conversation.item.input_audio_transcription.completed', {
+      item_id: itemId,
+      content_index: 0,
+      transcript,
+    });
+  }
+
+  createItem(event) {
+    const item = {
+      ...event.item,
+      id: event.item?.id || this.id('item'),
+      object: 'realtime.item',
+      status: 'completed',
+    };
+    const previousItemId = event.previous_item_id ?? this.lastItemId;
+    this.lastItemId = item.id;
+    this.send('conversation.item.created', { previous_item_id: previousItemId, item });
+  }
+
+  /**
+   * The turn to answer with, the fallback or a stock reply once the script ran out
+   * @param {boolean} consume
+   * @returns {ScriptTurn}
+   */
+  nextTurn(consume = true) {
+    const turn = this.script.turns[this.turn];
+    if (turn) {
+      if (consume) {
+        this.turn += 1;
+      }
+      return turn;
+    }
+    return (
+      this.script.fallback || {
+        outputs: [{ type: 'message', text: 'The mock script has no more turns.' }],
+      }
+    );
+  }
+
+  async respond() {
+    const turn = this.nextTurn();
+    const response = {
+      id: this.id('resp'),
+      object: 'realtime.response',
+      status: 'in_progress',
+      status_details: null,
+      output: [],
+      usage: null,
+    };
+    this.response = { cancelled: false };
+    this.log(`Responding with turn ${this.turn}`);
+    this.send('response.created', { response });
+
+    for (const [outputIndex, output] of turn.outputs.entries()) {
+      if (this.response.cancelled || this.closed) {
+        break;
+      }
+      const item =
+        output.type === 'function_call'
+          ? await this.streamFunctionCall(response.id, outputIndex, output)
+          : await this.streamMessage(response.id, outputIndex, output);
+      response.output.push(item);
+    }
+
+    const cancelled = this.response.cancelled;
+    this.response = null;
+    this.send('response.done', {
+      response: {
+        ...response,
+        status: cancelled ? 'cancelled' : 'completed',
+        status_details: cancelled ? { type: 'cancelled', reason: 'client_cancelled' } : null,
+        usage: { total_tokens: 0, input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  addOutputItem(responseId, outputIndex, item) {
+    const previousItemId = this.lastItemId;
+    this.lastItemId = item.id;
+    this.send('response.output_item.added', {
+      response_id: responseId,
+      output_index: outputIndex,
+      item,
+    });
+    this.send('conversation.item.created', { previous_item_id: previousItemId, item });
+  }
+
+  /**
+   * @param {string} responseId
+   * @param {number} outputIndex
+   * @param {MessageOutput} output
+   */
+  async streamMessage(responseId, outputIndex, output) {
+    const audio = output.audio ?? this.session.modalities.includes('audio');
+    const item = {
+      id: this.id('item'),
+      object: 'realtime.item',
+      type: 'message',
+      status: 'in_progress',
+      role: 'assistant',
+      content: [],
+    };
+    const position = { response_id: responseId, item_id: item.id, output_index: outputIndex };
+    const part = { ...position, content_index: 0 };
+    this.addOutputItem(responseId, outputIndex, item);
+    this.send('response.content_part.added', {
+      ...part,
+      part: audio ? { type: 'audio', transcript: '' } : { type: 'text', text: '' },
+    });
+
+    let streamed = '';
+    for (const word of output.text.split(/(?<=\s)/)) {
+      if (this.response.cancelled || this.closed) {
+        break;
+      }
+      streamed += word;
+      if (audio) {
+        this.send('response.audio_transcript.delta', { ...part, delta: word });
+        this.send('response.audio.delta', { ...part, delta: synthesizeWord(word) });
+      } else {
+        this.send('response.text.delta', { ...part, delta: word });
+      }
+      await this.wait();
+    }
+
+    const content = audio
+      ? { type: 'audio', transcript: streamed }
+      : { type: 'text', text: streamed };
+    if (audio) {
+      this.send('response.audio.done', part);
+      this.send('response.audio_transcript.done', { ...part, transcript: streamed });
+    } else {
+      this.send('response.text.done', { ...part, text: streamed });
+    }
+    this.send('response.content_part.done', { ...part, part: content });
+    const done = {
+      ...item,
+      status: this.response.cancelled ? 'incomplete' : 'completed',
+      content: [content],
+    };
+    this.send('response.output_item.done', {
+      response_id: responseId,
+      output_index: outputIndex,
+      item: done,
+    });
+    return done;
+  }
+
+  /**
+   * @param {string} responseId
+   * @param {number} outputIndex
+   * @param {FunctionCallOutput} output
+   */
+  async streamFunctionCall(responseId, outputIndex, output) {
+    const args = JSON.stringify(output.arguments || {});
+    const item = {
+      id: this.id('item'),
+      object: 'realtime.item',
+      type: 'function_call',
+      status: 'in_progress',
+      name: output.name,
+      call_id: this.id('call'),
+      arguments: '',
+    };
+    const position = {
+      response_id: responseId,
+      item_id: item.id,
+      output_index: outputIndex,
+      call_id: item.call_id,
+    };
+    this.addOutputItem(responseId, outputIndex, item);
+    // arguments arrive in a few pieces, like they do from the model
+    for (let i = 0; i < args.length; i += 16) {
+      this.send('response.function_call_arguments.delta', {
+        ...position,
+        delta: args.slice(i, i + 16),
+      });
+    }
+    await this.wait();
+    this.send('response.function_call_arguments.done', {
+      ...position,
+      name: output.name,
+      arguments: args,
+    });
+    const done = { ...item, status: 'completed', arguments: args };
+    this.log(`Calling "${output.name}" with ${args}`);
+    this.send('response.output_item.done', {
+      response_id: responseId,
+      output_index: outputIndex,
+      item: done,
+    });
+    return done;
+  }
+}
+
+/**
+ * Speaks enough of the Realtime protocol for RealtimeClient, answering every
+ * response request with the next turn of a script instead of a model
+ */
+export class MockRealtimeServer {
+  /**
+   * @param {Script} script
+   * @param {{ pace?: number, vadMs?: number }} [options]
+   *   pace is the delay between streamed deltas, vadMs how much audio makes a spoken turn
+   */
+  constructor(script, { pace = 20, vadMs = 1500 } = {}) {
+    this.script = validateScript(script);
+    this.pace = pace;
+    this.vadMs = vadMs;
+    this.wss = null;
+  }
+
+  /**
+   * @param {number} port
+   */
+  listen(port) {
+    this.wss = new WebSocketServer({ port });
+    this.wss.on('connection', this.connectionHandler.bind(this));
+    this.log(`Listening on ws://localhost:${port}`);
+  }
+
+  close() {
+    this.wss?.close();
+  }
+
+  connectionHandler(ws) {
+    this.log('Client connected, starting the script');
+    new MockSession(ws, this.script, {
+      pace: this.pace,
+      vadMs: this.vadMs,
+      log: this.log.bind(this),
+    });
+  }
+
+  log(...args) {
+    console.log(`[MockRealtime]`, ...args);
+  }
+}
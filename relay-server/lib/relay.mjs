@@ -0,0 +1,102 @@
+import { WebSocketServer } from 'ws';
+import { RealtimeClient } from '@openai/realtime-api-beta';
+
+/**
+ * Relays Realtime API events between the browser and OpenAI so the
+ * API key only ever lives on the server
+ */
+export class RealtimeRelay {
+  /**
+   * @param {string} apiKey
+   * @param {{ allowedOrigins?: string[] }} [options]
+   */
+  constructor(apiKey, { allowedOrigins = [] } = {}) {
+    this.apiKey = apiKey;
+    this.allowedOrigins = allowedOrigins;
+    this.wss = null;
+  }
+
+  /**
+   * @param {number} port
+   */
+  listen(port) {
+    this.wss = new WebSocketServer({ port });
+    this.wss.on('connection', this.connectionHandler.bind(this));
+    this.log(`Listening on ws://localhost:${port}`);
+  }
+
+  async connectionHandler(ws, req) {
+    if (!req.url) {
+      this.log('No URL provided, closing connection.');
+      ws.close();
+      return;
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const pathname = url.pathname;
+
+    if (pathname !== '/') {
+      this.log(`Invalid pathname: "${pathname}"`);
+      ws.close();
+      return;
+    }
+
+    const origin = req.headers.origin || '';
+    if (this.allowedOrigins.length && !this.allowedOrigins.includes(origin)) {
+      this.log(`Origin not allowed: "${origin}"`);
+      ws.close();
+      return;
+    }
+
+    // Instantiate new client, the key is injected here and never sent to the browser
+    this.log(`Connecting with key "${this.apiKey.slice(0, 3)}..."`);
+    const client = new RealtimeClient({ apiKey: this.apiKey });
+
+    // Relay: OpenAI Realtime API Event -> Browser Event
+    client.realtime.on('server.*', (event) => {
+      this.log(`Relaying "${event.type}" to Client`);
+      ws.send(JSON.stringify(event));
+    });
+    client.realtime.on('close', () => ws.close());
+
+    // Relay: Browser Event -> OpenAI Realtime API Event
+    // We need to queue data waiting for the OpenAI connection
+    const messageQueue = [];
+    const messageHandler = (data) => {
+      try {
+        const event = JSON.parse(data);
+        this.log(`Relaying "${event.type}" to OpenAI`);
+        client.realtime.send(event.type, event);
+      } catch (e) {
+        console.error(e.message);
+        this.log(`Error parsing event from client: ${data}`);
+      }
+    };
+    ws.on('message', (data) => {
+      if (!client.isConnected()) {
+        messageQueue.push(data);
+      } else {
+        messageHandler(data);
+      }
+    });
+    ws.on('close', () => client.disconnect());
+
+    // Connect to OpenAI Realtime API
+    try {
+      this.log(`Connecting to OpenAI...`);
+      await client.connect();
+    } catch (e) {
+      this.log(`Error connecting to OpenAI: ${e.message}`);
+      ws.close();
+      return;
+    }
+    this.log(`Connected to OpenAI successfully!`);
+    while (messageQueue.length) {
+      messageHandler(messageQueue.shift());
+    }
+  }
+
+  log(...args) {
+    console.log(`[RealtimeRelay]`, ...args);
+  }
+}
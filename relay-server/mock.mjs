@@ -0,0 +1,29 @@
+import { readFileSync } from 'fs';
+import { MockRealtimeServer } from './lib/mock.mjs';
+import dotenv from 'dotenv';
+dotenv.config({ path: ['.env.local', '.env'] });
+
+// Script to play, e.g. `npm run mock -- relay-server/scripts/send-eth.json`
+const SCRIPT_PATH =
+  process.argv[2] ||
+  process.env.MOCK_SCRIPT ||
+  new URL('./scripts/send-eth.json', import.meta.url);
+
+let script;
+try {
+  script = JSON.parse(readFileSync(SCRIPT_PATH, 'utf8'));
+} catch (e) {
+  console.error(`Unable to read mock script "${SCRIPT_PATH}": ${e.message}`);
+  process.exit(1);
+}
+
+// Same port as the relay so the console needs no changes to switch between them
+const PORT = parseInt(process.env.RELAY_PORT || '') || 8081;
+
+// Milliseconds between streamed deltas, 0 plays the script as fast as possible
+const PACE = parseInt(process.env.MOCK_PACE_MS ?? '');
+
+const server = new MockRealtimeServer(script, {
+  pace: Number.isNaN(PACE) ? undefined : PACE,
+});
+server.listen(PORT);
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { NONCE_COOKIE, NONCE_TTL_SECONDS, cookieOptions, createNonce } from '@/services/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Hands out a nonce for the next sign in message, remembered in a short lived cookie
+ */
+export async function GET() {
+  const { nonce, cookie } = createNonce();
+  const response = NextResponse.json({ nonce });
+  response.cookies.set(NONCE_COOKIE, cookie, cookieOptions(NONCE_TTL_SECONDS));
+  return response;
+}
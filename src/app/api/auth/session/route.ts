@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/services/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = getSession();
+  return NextResponse.json(session ? { authenticated: true, ...session } : { authenticated: false });
+}
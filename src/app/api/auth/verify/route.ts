@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  AuthError,
+  NONCE_COOKIE,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  cookieOptions,
+  getSiweDomain,
+  readNonce,
+  sealCookie,
+  verifySignIn,
+} from '@/services/auth';
+
+/**
+ * Verifies a signed sign in message and starts the session
+ */
+export async function POST(request: NextRequest) {
+  let body: { message?: unknown; signature?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+  const { message, signature } = body;
+  if (typeof message !== 'string' || typeof signature !== 'string' || !signature.startsWith('0x')) {
+    return NextResponse.json({ error: 'message and signature are required' }, { status: 400 });
+  }
+
+  try {
+    const session = await verifySignIn({
+      message,
+      signature: signature as `0x${string}`,
+      nonce: readNonce(request.cookies.get(NONCE_COOKIE)?.value),
+      domain: getSiweDomain(),
+    });
+    const response = NextResponse.json({ authenticated: true, ...session });
+    response.cookies.set(SESSION_COOKIE, sealCookie(session), cookieOptions(SESSION_TTL_SECONDS));
+    // a nonce is only good for one sign in
+    response.cookies.delete(NONCE_COOKIE);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: 401 });
+    }
+    console.error('Error verifying sign in:', error);
+    return NextResponse.json({ error: 'Unable to verify the signature' }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+'use client'
+
+import { HistoryBrowser } from '@/components/history/HistoryBrowser'
+import '@/styles/App.scss'
+
+export default function History() {
+  return (
+    <div data-component="App">
+      <HistoryBrowser />
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import type { Address, Chain } from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+
+export interface ChainConfig {
+  chain: Chain;
+  // key the assistant uses to refer to the chain
+  key: string;
+  // lowercase words users may say for the chain
+  aliases: string[];
+  testnet: boolean;
+  explorerUrl: string;
+  // average seconds between blocks, used to turn time windows into block ranges
+  blockTimeSeconds: number;
+  mintContractAddress?: Address;
+}
+
+export const CHAINS: { [chainId: number]: ChainConfig } = {
+  [baseSepolia.id]: {
+    chain: baseSepolia,
+    key: 'base-sepolia',
+    aliases: ['base sepolia', 'sepolia', 'testnet', 'test network'],
+    testnet: true,
+    explorerUrl: 'https://base-sepolia.blockscout.com',
+    blockTimeSeconds: 2,
+    mintContractAddress: '0xA3e40bBe8E8579Cd2619Ef9C6fEA362b760dac9f',
+  },
+  [base.id]: {
+    chain: base,
+    key: 'base',
+    aliases: ['base mainnet', 'mainnet', 'main network'],
+    testnet: false,
+    explorerUrl: 'https://base.blockscout.com',
+    blockTimeSeconds: 2,
+  },
+};
+
+export const DEFAULT_CHAIN = baseSepolia;
+
+export const SUPPORTED_CHAINS = [baseSepolia, base] as const;
+
+export function getChainConfig(chainId: number): ChainConfig {
+  return CHAINS[chainId] || CHAINS[DEFAULT_CHAIN.id];
+}
+
+/**
+ * Finds a supported chain by key, alias or name
+ */
+export function findChain(query: string): ChainConfig | undefined {
+  const needle = query.trim().toLowerCase();
+  return Object.values(CHAINS).find(
+    (config) =>
+      config.key === needle ||
+      config.chain.name.toLowerCase() === needle ||
+      config.aliases.includes(needle)
+  );
+}
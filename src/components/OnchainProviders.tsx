@@ -3,8 +3,8 @@ import { OnchainKitProvider } from '@coinbase/onchainkit';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import type { ReactNode } from 'react';
-import { baseSepolia } from 'viem/chains';
-import { WagmiProvider } from 'wagmi';
+import { WagmiProvider, useChainId } from 'wagmi';
+import { getChainConfig } from '../chains';
 import { NEXT_PUBLIC_CDP_API_KEY } from '../config';
 import { useWagmiConfig } from '../wagmi';
 
@@ -12,17 +12,33 @@ type Props = { children: ReactNode };
 
 const queryClient = new QueryClient();
 
+/**
+ * Keeps OnchainKit on the chain the wallet is currently using
+ */
+function ActiveChainOnchainKitProvider({ children }: Props) {
+  const chainId = useChainId();
+
+  return (
+    <OnchainKitProvider
+      apiKey={NEXT_PUBLIC_CDP_API_KEY}
+      chain={getChainConfig(chainId).chain}
+    >
+      {children}
+    </OnchainKitProvider>
+  );
+}
+
 function OnchainProviders({ children }: Props) {
   const wagmiConfig = useWagmiConfig();
 
   return (
     <WagmiProvider config={wagmiConfig}>
       <QueryClientProvider client={queryClient}>
-        <OnchainKitProvider apiKey={NEXT_PUBLIC_CDP_API_KEY} chain={baseSepolia}>
+        <ActiveChainOnchainKitProvider>
           <RainbowKitProvider modalSize="compact">
             {children}
           </RainbowKitProvider>
-        </OnchainKitProvider>
+        </ActiveChainOnchainKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
   );
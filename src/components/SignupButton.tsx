@@ -3,7 +3,7 @@ import WalletWrapper from './WalletWrapper';
 
 export default function SignupButton() {
   return (
-    <div data-testid="signup-button">
+    <div>
       <WalletWrapper
         className="ockConnectWallet_Container min-w-[90px] shrink bg-slate-200 text-[#030712] hover:bg-slate-300"
         text="Sign up"
@@ -1,55 +1,32 @@
 'use client';
-import {
-  Transaction,
-  TransactionButton,
-  TransactionStatus,
-  TransactionStatusAction,
-  TransactionStatusLabel,
-} from '@coinbase/onchainkit/transaction';
-import type {
-  TransactionError,
-  TransactionResponse,
-} from '@coinbase/onchainkit/transaction';
-import type { Address, ContractFunctionParameters } from 'viem';
-import {
-  BASE_SEPOLIA_CHAIN_ID,
-  mintABI,
-  mintContractAddress,
-} from '../constants';
+import type { Address } from 'viem';
+import { useChainId, useConfig } from 'wagmi';
+import { getChainConfig } from '../chains';
+import { mintABI } from '../constants';
+import { executeContractWrite } from '../services/executor';
+import { ExecuteButton } from './transaction/ExecuteButton';
 
 export default function TransactionWrapper({ address }: { address: Address }) {
-  const contracts = [
-    {
-      address: mintContractAddress,
-      abi: mintABI,
-      functionName: 'mint',
-      args: [address],
-    },
-  ] as unknown as ContractFunctionParameters[];
+  const config = useConfig();
+  const chainId = useChainId();
+  const { mintContractAddress } = getChainConfig(chainId);
 
-  const handleError = (err: TransactionError) => {
-    console.error('Transaction error:', err);
-  };
-
-  const handleSuccess = (response: TransactionResponse) => {
-    console.log('Transaction successful', response);
-  };
+  if (!mintContractAddress) {
+    return null;
+  }
 
   return (
-    <div className="flex w-[450px]">
-      <Transaction
-        contracts={contracts}
-        className="w-[450px]"
-        chainId={BASE_SEPOLIA_CHAIN_ID}
-        onError={handleError}
-        onSuccess={handleSuccess}
-      >
-        <TransactionButton className="mt-0 mr-auto ml-auto w-[450px] max-w-full text-[white]" />
-        <TransactionStatus>
-          <TransactionStatusLabel />
-          <TransactionStatusAction />
-        </TransactionStatus>
-      </Transaction>
-    </div>
+    <ExecuteButton
+      label="Transact"
+      execute={() =>
+        executeContractWrite(config, {
+          address: mintContractAddress,
+          abi: mintABI,
+          functionName: 'mint',
+          args: [address],
+          chainId,
+        })
+      }
+    />
   );
 }
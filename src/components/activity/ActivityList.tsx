@@ -0,0 +1,47 @@
+import { ArrowDownLeft, ArrowUpRight } from 'react-feather';
+import { getChainConfig } from '@/chains';
+import type { ActivityItem } from '@/services/activity';
+import { shortenAddress } from '@/services/names';
+
+import '@/styles/components/ActivityList.scss';
+
+/**
+ * Transfers returned by the last get_recent_activity call
+ */
+export function ActivityList({ items, chainId }: { items: ActivityItem[]; chainId: number }) {
+  const { explorerUrl } = getChainConfig(chainId);
+
+  return (
+    <div data-component="ActivityList">
+      <div className="activity-title">Recent activity</div>
+      {items.length === 0 && <div className="activity-empty">No transfers found</div>}
+      <ul className="activity-items">
+        {items.map((item) => {
+          const Icon = item.direction === 'sent' ? ArrowUpRight : ArrowDownLeft;
+          return (
+            <li key={`${item.hash}:${item.direction}:${item.symbol}:${item.counterparty}`}>
+              <span className={`activity-icon ${item.direction}`}>
+                <Icon />
+              </span>
+              <span className="activity-who" title={item.counterparty}>
+                {item.counterpartyName || shortenAddress(item.counterparty)}
+              </span>
+              <span className={`activity-amount ${item.direction}`}>
+                {item.direction === 'sent' ? '-' : '+'}
+                {item.amount} {item.symbol}
+              </span>
+              <a
+                className="activity-time"
+                href={`${explorerUrl}/tx/${item.hash}`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {new Date(item.timestamp).toLocaleString()}
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
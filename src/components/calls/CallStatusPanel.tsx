@@ -0,0 +1,69 @@
+import { useSyncExternalStore } from 'react';
+import { PhoneOff } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import { isCallFinished, type CallMonitor, type CallStatus } from '@/services/calls';
+
+import '@/styles/components/CallStatusPanel.scss';
+
+const STATUS_LABELS: { [status in CallStatus]: string } = {
+  queued: 'Queued',
+  ringing: 'Ringing',
+  in_progress: 'On the call',
+  completed: 'Finished',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Live state of the call to the financial institution
+ * Renders nothing until a call has been started
+ */
+export function CallStatusPanel({ monitor }: { monitor: CallMonitor }) {
+  const call = useSyncExternalStore(
+    (listener) => monitor.subscribe(listener),
+    () => monitor.getCall(),
+    () => null
+  );
+
+  if (!call) {
+    return null;
+  }
+
+  const finished = isCallFinished(call);
+
+  return (
+    <div data-component="CallStatusPanel">
+      <div className="call-header">
+        <span className="call-title">Call to the institution</span>
+        <span className={`call-status ${call.status}`}>{STATUS_LABELS[call.status]}</span>
+      </div>
+      <ol className="call-events">
+        {call.events.map((event, index) => (
+          <li key={index}>
+            <span className="call-event-time">{new Date(event.at).toLocaleTimeString()}</span>
+            <span>{event.message}</span>
+          </li>
+        ))}
+      </ol>
+      {call.outcome && (
+        <div className={`call-outcome ${call.outcome.agreed ? 'agreed' : 'rejected'}`}>
+          <div>{call.outcome.summary}</div>
+          {call.outcome.reference && (
+            <div className="call-reference">Reference {call.outcome.reference}</div>
+          )}
+        </div>
+      )}
+      {call.error && <div className="call-error">{call.error}</div>}
+      {!finished && (
+        <div className="call-actions">
+          <Button
+            label="Hang up"
+            icon={PhoneOff}
+            buttonStyle="regular"
+            onClick={() => monitor.cancel().catch(console.error)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
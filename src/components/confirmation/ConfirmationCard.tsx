@@ -0,0 +1,112 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { Check, X } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import { PayloadPreview } from '@/components/signature/PayloadPreview';
+import { shortenAddress } from '@/services/names';
+import { describeAllowance, formatFee, type ConfirmationManager } from '@/tools';
+
+import '@/styles/components/ConfirmationCard.scss';
+
+/**
+ * Summary of the transaction, signature or network switch waiting for the user
+ * Renders nothing while no confirmation is pending
+ */
+export function ConfirmationCard({ manager }: { manager: ConfirmationManager }) {
+  const pending = useSyncExternalStore(
+    (listener) => manager.subscribe(listener),
+    () => manager.getPending(),
+    () => null
+  );
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!pending) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pending]);
+
+  if (!pending) {
+    return null;
+  }
+
+  const { summary } = pending;
+  const secondsLeft = Math.max(0, Math.ceil((pending.expiresAt - now) / 1000));
+
+  return (
+    <div data-component="ConfirmationCard">
+      {summary.kind === 'transaction' ? (
+        <>
+          <div className="confirmation-title">
+            {summary.action} {summary.amount} {summary.symbol}
+          </div>
+          <dl className="confirmation-details">
+            <dt>To</dt>
+            <dd>
+              {summary.recipientName && (
+                <div className="recipient-name">{summary.recipientName}</div>
+              )}
+              <div className="recipient-address">{summary.recipient}</div>
+            </dd>
+            {summary.expectedOutput && (
+              <>
+                <dt>You get</dt>
+                <dd>{summary.expectedOutput}</dd>
+              </>
+            )}
+            <dt>Network</dt>
+            <dd>{summary.chain}</dd>
+            <dt>Est. fee</dt>
+            <dd>{summary.estimatedFee ? `~${formatFee(summary.estimatedFee)} ETH` : 'unknown'}</dd>
+          </dl>
+          {summary.warning && <div className="confirmation-warning">{summary.warning}</div>}
+        </>
+      ) : summary.kind === 'signature' ? (
+        <>
+          <div className="confirmation-title">
+            {summary.method === 'personal_sign' ? 'Sign message' : 'Sign typed data'}
+          </div>
+          <PayloadPreview preview={summary} />
+          <dl className="confirmation-details">
+            <dt>Signer</dt>
+            <dd>{shortenAddress(summary.signer)}</dd>
+            <dt>Network</dt>
+            <dd>{summary.chain}</dd>
+          </dl>
+          {summary.allowances?.length ? (
+            <div className="confirmation-warning">
+              Grants a token allowance:{' '}
+              {summary.allowances.map(describeAllowance).join(', and ')}, at any time and
+              without asking you again.
+            </div>
+          ) : (
+            <div className="confirmation-hint">Free, nothing is sent onchain.</div>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="confirmation-title">Switch to {summary.chain}</div>
+          <div className="confirmation-warning">
+            Transactions on this network use real funds.
+          </div>
+        </>
+      )}
+      <div className="confirmation-hint">
+        Say &quot;confirm&quot; or &quot;cancel&quot; ({secondsLeft}s)
+      </div>
+      <div className="confirmation-actions">
+        <Button
+          label="Cancel"
+          icon={X}
+          buttonStyle="regular"
+          onClick={() => manager.decline()}
+        />
+        <Button
+          label="Confirm"
+          icon={Check}
+          buttonStyle="action"
+          onClick={() => manager.confirm()}
+        />
+      </div>
+    </div>
+  );
+}
@@ -3,18 +3,22 @@
  * and run custom logic on the server
  *
  * Set the local relay server address to:
- * REACT_APP_LOCAL_RELAY_SERVER_URL=http://localhost:8081
+ * NEXT_PUBLIC_LOCAL_RELAY_SERVER_URL=ws://localhost:8081
  *
  * This will also require you to set OPENAI_API_KEY= in a `.env` file
- * You can run it with `npm run relay`, in parallel with `npm start`
+ * You can run it with `npm run relay`, in parallel with `npm run dev`
  */
 const LOCAL_RELAY_SERVER_URL: string =
-  process.env.REACT_APP_LOCAL_RELAY_SERVER_URL || '';
+  process.env.NEXT_PUBLIC_LOCAL_RELAY_SERVER_URL || '';
 
+/**
+ * Host of the service that phones the financial institution, e.g. calls.example.com
+ * Leave it unset to develop against the scripted mock backend
+ */
 const BACKEND: string =
-  process.env.BACKEND || '';
+  process.env.NEXT_PUBLIC_BACKEND || process.env.BACKEND || '';
 
-import { useEffect, useRef, useCallback, useState } from 'react'
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react'
 import dynamic from 'next/dynamic'
 import Image from 'next/image';
 
@@ -23,10 +27,32 @@ import { ItemType } from '@openai/realtime-api-beta/dist/lib/client.js'
 import { WavRecorder, WavStreamPlayer } from '@/lib/wavtools/index.js'
 import { instructions } from '@/utils/conversation_config'
 import { WavRenderer } from '@/utils/wav_renderer'
-
-import { X, Edit, Zap, ArrowUp, ArrowDown } from 'react-feather'
+import {
+  tools,
+  mountTools,
+  ConfirmationManager,
+  describeSummary,
+  describeMemory,
+  describeSession,
+  type Coordinates,
+  type ToolContext,
+} from '@/tools'
+
+import { X, Edit, Zap, Settings, LogIn, LogOut, Database, Clock, Activity, Users } from 'react-feather'
 import { Button } from '@/components/button/Button'
 import { Toggle } from '@/components/toggle/Toggle'
+import { ConfirmationCard } from '@/components/confirmation/ConfirmationCard'
+import { PolicySettings } from '@/components/policy/PolicySettings'
+import { NetworkIndicator } from '@/components/network/NetworkIndicator'
+import { ContactsPanel } from '@/components/contacts/ContactsPanel'
+import { ActivityList } from '@/components/activity/ActivityList'
+import { CallStatusPanel } from '@/components/calls/CallStatusPanel'
+import { MintedNftCard } from '@/components/nft/MintedNftCard'
+import { SignatureCard } from '@/components/signature/SignatureCard'
+import { MemoryPanel } from '@/components/memory/MemoryPanel'
+import { ExportMenu } from '@/components/export/ExportMenu'
+import { EventInspector } from '@/components/inspector/EventInspector'
+import { ReplayPanel } from '@/components/replay/ReplayPanel'
 
 import '@/styles/components/Console.scss'
 
@@ -34,33 +60,6 @@ const Map = dynamic(() => import('@/components/map/Map'), { ssr: false })
 
 import { isJsxOpeningLikeElement } from 'typescript';
 
-/**
- * Type for result from get_weather() function call
- */
-interface Coordinates {
-  lat: number;
-  lng: number;
-  location?: string;
-  temperature?: {
-    value: number;
-    units: string;
-  };
-  wind_speed?: {
-    value: number;
-    units: string;
-  };
-}
-
-/**
- * Type for all event logs
- */
-interface RealtimeEvent {
-  time: string;
-  source: 'client' | 'server';
-  count?: number;
-  event: { [key: string]: any };
-}
-
 function useRealtimeClient() {
   const [client, setClient] = useState<RealtimeClient | null>(null);
 
@@ -72,8 +71,11 @@ function useRealtimeClient() {
     const storedApiKey = LOCAL_RELAY_SERVER_URL
       ? ''
       : localStorage.getItem('tmp::voice_api_key') || '';
-    
-    if (storedApiKey !== '') {
+
+    if (LOCAL_RELAY_SERVER_URL) {
+      // The relay injects the key server side, drop any key left over in the browser
+      localStorage.removeItem('tmp::voice_api_key');
+    } else if (storedApiKey !== '') {
       localStorage.setItem('tmp::voice_api_key', storedApiKey);
     }
 
@@ -106,10 +108,8 @@ function useRealtimeClient() {
   return { getClient, isReady: !!client };
 }
 
-import { useAccount, useBalance, useSendTransaction, useDisconnect, useReadContract } from 'wagmi';
-import { parseEther, parseUnits, formatUnits, erc20Abi } from 'viem';
-import { getAddress } from '@coinbase/onchainkit/identity';
-import { baseSepolia } from 'viem/chains';
+import { useAccount, useBalance, useChainId, useConfig, useSwitchChain } from 'wagmi';
+import { erc20Abi, parseUnits } from 'viem';
 import LoginButton from '../LoginButton';
 import SignupButton from '../SignupButton';
 import TransactionWrapper from '../TransactionWrapper';
@@ -118,26 +118,57 @@ import OnchainkitSvg from '@/svg/OnchainkitSvg';
 import { ONCHAINKIT_LINK } from '@/links';
 import TransferUsdcWrapper from '../TransferUsdcWrapper';
 import ApproveUsdcWrapper from '../ApproveUsdcWrapper';
-
-const USDC_CONTRACT_ADDRESS = '0x036cbd53842c5426634e7929541ec2318f3dcf7e';
-const BLOCKSCOUT_URL = 'https://base-sepolia.blockscout.com';
+import { SWAP_SPENDER_ADDRESS, SWAP_USDC_AMOUNT } from '@/constants';
+import { createRpcActivitySource, type ActivityItem } from '@/services/activity';
+import { createMockSwapProvider } from '@/services/swap';
+import type { MintedNft } from '@/services/nft';
+import type { SignatureRecord } from '@/services/signatures';
+import { loadMemory, subscribeMemory, type MemoryEntry } from '@/services/memory';
+import { ConversationRecorder } from '@/services/history';
+import {
+  collectLiveAudio,
+  downloadBlob,
+  exportConversation,
+  type ExportFormat,
+} from '@/services/export';
+import { EventLog, type RealtimeEvent } from '@/services/events';
+import {
+  ReplaySession,
+  createFixture,
+  lastMessage,
+  type ReplayFixture,
+} from '@/services/replay';
+import { executeContractWrite } from '@/services/executor';
+import { useSession } from '@/hooks/useSession';
+import { getToken } from '@/tokens';
+import {
+  CallMonitor,
+  createHttpCallBackend,
+  createMockCallBackend,
+  isCallFinished,
+} from '@/services/calls';
 
 export function Console() {
+  const config = useConfig();
+  const chainId = useChainId();
   const { address } = useAccount();
   const { data: balance } = useBalance({ address });
-  const { sendTransaction } = useSendTransaction();
-  const { disconnect } = useDisconnect();
+  const { switchChainAsync } = useSwitchChain();
+  const session = useSession();
   const { getClient, isReady } = useRealtimeClient();
   const [apiKey, setApiKey] = useState('');
   const [showBalance, setShowBalance] = useState(false);
-
-  const { data: usdcBalance } = useReadContract({
-    address: USDC_CONTRACT_ADDRESS,
-    abi: erc20Abi,
-    functionName: 'balanceOf',
-    args: [address as `0x${string}`],
-    chainId: baseSepolia.id,
-  });
+  const [showPolicySettings, setShowPolicySettings] = useState(false);
+  const [activity, setActivity] = useState<ActivityItem[] | null>(null);
+  const [mintedNft, setMintedNft] = useState<MintedNft | null>(null);
+  const [signature, setSignature] = useState<SignatureRecord | null>(null);
+  const [memory, setMemory] = useState<MemoryEntry[]>([]);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showContacts, setShowContacts] = useState(false);
+  const [showEvents, setShowEvents] = useState(false);
+  const activitySource = useMemo(() => createRpcActivitySource(config), [config]);
+  // no live desk is integrated yet, quotes come from the local mock
+  const swapProvider = useMemo(() => createMockSwapProvider(), []);
 
   /**
    * Instantiate:
@@ -151,34 +182,40 @@ export function Console() {
   const wavStreamPlayerRef = useRef<WavStreamPlayer>(
     new WavStreamPlayer({ sampleRate: 24000 })
   );
+  const confirmationsRef = useRef<ConfirmationManager>(
+    new ConfirmationManager()
+  );
+  const callsRef = useRef<CallMonitor>(
+    new CallMonitor(
+      BACKEND ? createHttpCallBackend(`https://${BACKEND}`) : createMockCallBackend()
+    )
+  );
+  const recorderRef = useRef<ConversationRecorder>(new ConversationRecorder());
+  // base instructions plus the session and memory of the wallet, kept current every render
+  const instructionsRef = useRef(instructions);
+  instructionsRef.current = [instructions, describeSession(session), describeMemory(memory)]
+    .filter(Boolean)
+    .join('\n');
 
   /**
    * References for
    * - Rendering audio visualization (canvas)
-   * - Autoscrolling event logs
-   * - Timing delta for event log displays
+   * - Every raw realtime event, for the event inspector
    */
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const eventsScrollHeightRef = useRef(0);
-  const eventsScrollRef = useRef<HTMLDivElement>(null);
-  const startTimeRef = useRef<string>(new Date().toISOString());
+  const eventLogRef = useRef(new EventLog());
+  const replayRef = useRef<ReplaySession | null>(null);
 
   /**
    * All of our variables for displaying application state
    * - items are all conversation items (dialog)
-   * - realtimeEvents are event logs, which can be expanded
-   * - memoryKv is for set_memory() function
+   * - memory is what set_memory() saved for the wallet
    * - coords, marker are for get_weather() function
    */
   const [items, setItems] = useState<ItemType[]>([]);
-  const [realtimeEvents, setRealtimeEvents] = useState<RealtimeEvent[]>([]);
-  const [expandedEvents, setExpandedEvents] = useState<{
-    [key: string]: boolean;
-  }>({});
   const [isConnected, setIsConnected] = useState(false);
   const [canPushToTalk, setCanPushToTalk] = useState(true);
   const [isRecording, setIsRecording] = useState(false);
-  const [memoryKv, setMemoryKv] = useState<{ [key: string]: any }>({});
   const [coords, setCoords] = useState<Coordinates | null>({
     lat: 37.775593,
     lng: -122.418137,
@@ -188,27 +225,6 @@ export function Console() {
   const [lastAssistantMessage, setLastAssistantMessage] = useState<string>('...');
   const [lastUserMessage, setLastUserMessage] = useState<string>('...');
 
-  /**
-   * Utility for formatting the timing of logs
-   */
-  const formatTime = useCallback((timestamp: string) => {
-    const startTime = startTimeRef.current;
-    const t0 = new Date(startTime).valueOf();
-    const t1 = new Date(timestamp).valueOf();
-    const delta = t1 - t0;
-    const hs = Math.floor(delta / 10) % 100;
-    const s = Math.floor(delta / 1000) % 60;
-    const m = Math.floor(delta / 60_000) % 60;
-    const pad = (n: number) => {
-      let s = n + '';
-      while (s.length < 2) {
-        s = '0' + s;
-      }
-      return s;
-    };
-    return `${pad(m)}:${pad(s)}.${pad(hs)}`;
-  }, []);
-
   /**
    * When you click the API key
    */
@@ -228,7 +244,7 @@ export function Console() {
     if (!client.isConnected()) {
       await client.connect();
       // Reinitialize any necessary session parameters
-      client.updateSession({ instructions: instructions });
+      client.updateSession({ instructions: instructionsRef.current });
       client.updateSession({ input_audio_transcription: { model: 'whisper-1' } });
       // Add any other initialization steps here
     }
@@ -245,10 +261,13 @@ export function Console() {
     const wavStreamPlayer = wavStreamPlayerRef.current;
 
     // Set state variables
-    startTimeRef.current = new Date().toISOString();
+    eventLogRef.current.clear();
     setIsConnected(true);
-    setRealtimeEvents([]);
     setItems(client.conversation.getItems());
+    recorderRef.current.start({
+      owner: toolContextRef.current?.address,
+      chainId: toolContextRef.current?.chainId,
+    });
 
     // Connect to microphone
     await wavRecorder.begin();
@@ -274,26 +293,92 @@ export function Console() {
    * Disconnect and reset conversation state
    */
   const disconnectConversation = useCallback(async () => {
+    confirmationsRef.current.decline();
+    recorderRef.current.finish();
     setIsConnected(false);
-    setRealtimeEvents([]);
     setItems([]);
-    setMemoryKv({});
     setCoords({
       lat: 37.775593,
       lng: -122.418137,
     });
     setMarker(null);
+    setActivity(null);
+    setMintedNft(null);
+    setSignature(null);
 
     const client = getClient();
     client.disconnect();
 
     const wavRecorder = wavRecorderRef.current;
-    await wavRecorder.end();
+    // a replay never opens the microphone
+    if (wavRecorder.getStatus() !== 'ended') {
+      await wavRecorder.end();
+    }
 
     const wavStreamPlayer = wavStreamPlayerRef.current;
     await wavStreamPlayer.interrupt();
   }, [getClient]);
 
+  /**
+   * Download the current conversation, tool calls included
+   */
+  const exportCurrentConversation = useCallback(
+    async (format: ExportFormat) => {
+      const items = getClient().conversation.getItems();
+      const conversation = recorderRef.current.snapshot(items);
+      await exportConversation(format, conversation, () =>
+        collectLiveAudio(conversation.id, items)
+      );
+    },
+    [getClient]
+  );
+
+  /**
+   * Download the session as a fixture for replayFixture()
+   */
+  const saveFixture = useCallback(() => {
+    const fixture = createFixture(
+      eventLogRef.current.getEvents(),
+      getClient().conversation.getItems()
+    );
+    const stamp = fixture.recordedAt.replace(/[:.]/g, '-');
+    downloadBlob(
+      new Blob([JSON.stringify(fixture)], { type: 'application/json' }),
+      `realtime-fixture-${stamp}.json`
+    );
+  }, [getClient]);
+
+  /**
+   * Play a recorded session through the client and its handlers instead of the API,
+   * resolving to how the resulting state differs from the recording
+   */
+  const replayFixture = useCallback(
+    async (fixture: ReplayFixture) => {
+      const client = getClient();
+      if (isConnected) {
+        await disconnectConversation();
+      } else {
+        client.disconnect();
+      }
+      eventLogRef.current.clear();
+      setItems([]);
+      setLastAssistantMessage('...');
+      setLastUserMessage('...');
+      setIsConnected(true);
+      await wavStreamPlayerRef.current.connect();
+
+      const replay = new ReplaySession(client, fixture);
+      replayRef.current = replay;
+      try {
+        await replay.run();
+      } finally {
+        replayRef.current = null;
+      }
+      return replay.compare();
+    },
+    [getClient, isConnected, disconnectConversation]
+  );
+
   const deleteConversationItem = useCallback(async (id: string) => {
     const client = getClient();
     client.deleteItem(id);
@@ -358,21 +443,6 @@ export function Console() {
     setCanPushToTalk(value === 'none');
   };
 
-  /**
-   * Auto-scroll the event logs
-   */
-  useEffect(() => {
-    if (eventsScrollRef.current) {
-      const eventsEl = eventsScrollRef.current;
-      const scrollHeight = eventsEl.scrollHeight;
-      // Only scroll if height has just changed
-      if (scrollHeight !== eventsScrollHeightRef.current) {
-        eventsEl.scrollTop = scrollHeight;
-        eventsScrollHeightRef.current = scrollHeight;
-      }
-    }
-  }, [realtimeEvents]);
-
   /**
    * Auto-scroll the conversation logs
    */
@@ -445,53 +515,96 @@ export function Console() {
     };
   }, []);
 
-  const connectWallet = useCallback(async () => {
-    if (address) {
-      return { message: 'Wallet already connected', address };
+  /**
+   * Approves the demo swap amount through the executor, then phones the institution
+   */
+  const approveUsdc = useCallback(async () => {
+    if (!address) {
+      return { success: false, message: 'No wallet connected' };
     }
-    const signupButton = document.querySelector('[data-testid="signup-button"] button');
-    if (signupButton instanceof HTMLElement) {
-      signupButton.click();
-      return { message: 'Wallet connection initiated' };
+    const usdc = getToken(chainId, 'USDC');
+    const approval = await executeContractWrite(config, {
+      address: usdc.address,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [SWAP_SPENDER_ADDRESS, parseUnits(SWAP_USDC_AMOUNT, usdc.decimals)],
+      chainId,
+    });
+    if (approval.status !== 'success') {
+      return {
+        success: false,
+        message:
+          approval.status === 'rejected'
+            ? 'USDC approval rejected in the wallet'
+            : 'USDC approval failed',
+      };
     }
-    return { message: 'Unable to initiate wallet connection' };
-  }, [address]);
 
-  const disconnectWallet = useCallback(async () => {
-    if (!address) {
-      return { message: 'No wallet connected' };
+    // Start a call once the allowance is in place
+    try {
+      await callsRef.current.start({
+        owner: address,
+        purpose: `Sell ${SWAP_USDC_AMOUNT} USDC for ARS at the best available rate`,
+        amount: SWAP_USDC_AMOUNT,
+      });
+      return { success: true, message: 'USDC spending approved and call started successfully' };
+    } catch (error) {
+      console.error('Error starting the call:', error);
+      return { success: false, message: 'USDC spending approved but error occurred while starting the call' };
     }
-    disconnect();
-    return { message: 'Wallet disconnected' };
-  }, [address, disconnect]);
+  }, [address, chainId, config]);
 
-  const approveUsdc = useCallback(async () => {
-    if (!address) {
-      return { message: 'No wallet connected' };
-    }
-    const approveUsdcButton = document.querySelector('[data-testid="approve-usdc-button"] button');
-    if (approveUsdcButton instanceof HTMLElement) {
-      approveUsdcButton.click();
-      
-      // Start a call after initiating USDC approval
-      try {
-        const response = await fetch(`https://${BACKEND}/call`, { method: 'POST' });
-        const data = await response.json();
-        if (data.success) {
-          console.log('Call started successfully');
-          return { message: 'USDC spending approved and call started successfully' };
-        } else {
-          console.error('Failed to start the call:', data.error);
-          return { message: 'USDC spending approved but failed to start the call' };
-        }
-      } catch (error) {
-        console.error('Error starting the call:', error);
-        return { message: 'USDC spending approved but error occurred while starting the call' };
-      }
-    }
-    return { message: 'Unable to initiate approve USDC spending' };
+  /**
+   * State and actions exposed to tool handlers
+   * Refreshed every render so the tools never need to be re-registered
+   */
+  const toolContextRef = useRef<ToolContext | null>(null);
+  toolContextRef.current = {
+    config,
+    confirmations: confirmationsRef.current,
+    chainId,
+    address,
+    balance,
+    session,
+    signIn: session.signIn,
+    signOut: session.signOut,
+    activitySource,
+    swapProvider,
+    calls: callsRef.current,
+    switchChainAsync,
+    setCoords,
+    setMarker,
+    setShowBalance,
+    setActivity,
+    setMintedNft,
+    setSignature,
+  };
+
+  /**
+   * Load the memory of the connected wallet, and follow edits from tools and the memory view
+   */
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      loadMemory(address)
+        .then((entries) => !cancelled && setMemory(entries))
+        .catch((error) => console.error('Error loading memory:', error));
+    load();
+    const unsubscribe = subscribeMemory(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, [address]);
 
+  /**
+   * Tell the assistant when the user signs in or out, or memory changes
+   */
+  useEffect(() => {
+    if (!isReady) return;
+    getClient().updateSession({ instructions: instructionsRef.current });
+  }, [isReady, getClient, session.status, session.address, memory]);
+
   /**
    * Core RealtimeClient and audio capture setup
    * Set all of our instructions, tools, events and more
@@ -504,381 +617,99 @@ export function Console() {
     const client = getClient();
 
     // Set instructions
-    client.updateSession({ instructions: instructions });
+    client.updateSession({ instructions: instructionsRef.current });
     // Set transcription, otherwise we don't get user transcriptions back
     client.updateSession({ input_audio_transcription: { model: 'whisper-1' } });
 
-    // Add tools
-    client.addTool(
-      {
-        name: 'set_memory',
-        description: 'Saves important data about the user into memory.',
-        parameters: {
-          type: 'object',
-          properties: {
-            key: {
-              type: 'string',
-              description:
-                'The key of the memory value. Always use lowercase and underscores, no other characters.',
-            },
-            value: {
-              type: 'string',
-              description: 'Value can be anything represented as a string',
-            },
-          },
-          required: ['key', 'value'],
-        },
-      },
-      async ({ key, value }: { [key: string]: any }) => {
-        setMemoryKv((memoryKv) => {
-          const newKv = { ...memoryKv };
-          newKv[key] = value;
-          return newKv;
-        });
-        return { ok: true };
-      }
-    );
-    client.addTool(
-      {
-        name: 'get_weather',
-        description:
-          'Retrieves the weather for a given lat, lng coordinate pair. Specify a label for the location.',
-        parameters: {
-          type: 'object',
-          properties: {
-            lat: {
-              type: 'number',
-              description: 'Latitude',
-            },
-            lng: {
-              type: 'number',
-              description: 'Longitude',
-            },
-            location: {
-              type: 'string',
-              description: 'Name of the location',
-            },
-          },
-          required: ['lat', 'lng', 'location'],
-        },
-      },
-      async ({ lat, lng, location }: { [key: string]: any }) => {
-        setMarker({ lat, lng, location });
-        setCoords({ lat, lng, location });
-        const result = await fetch(
-          `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lng}&current=temperature_2m,wind_speed_10m`
-        );
-        const json = await result.json();
-        const temperature = {
-          value: json.current.temperature_2m as number,
-          units: json.current_units.temperature_2m as string,
-        };
-        const wind_speed = {
-          value: json.current.wind_speed_10m as number,
-          units: json.current_units.wind_speed_10m as string,
-        };
-        setMarker({ lat, lng, location, temperature, wind_speed });
-        return json;
-      }
-    );
-    client.addTool(
-      {
-        name: 'send_eth',
-        description: 'Sends a specified amount of ETH to a given address or Basename.',
-        parameters: {
-          type: 'object',
-          properties: {
-            to: {
-              type: 'string',
-              description: 'The recipient address or Basename (e.g., gonzalomelov.base.eth)',
-            },
-            amount: {
-              type: 'string',
-              description: 'The amount of ETH to send (in ETH, not Wei)',
-            },
-          },
-          required: ['to', 'amount'],
-        },
-      },
-      async ({ to, amount }: { to: string; amount: string }) => {
-        if (!address) {
-          return { error: 'No wallet connected' };
-        }
-
-        try {
-          // Resolve Basename to address
-          let recipientAddress = to;
-          if (to.endsWith('.base.eth')) {
-            const resolvedAddress = await getAddress({ name: to });
-            if (resolvedAddress) {
-              recipientAddress = resolvedAddress;
-            } else {
-              return { error: 'Unable to resolve Basename' };
-            }
-          }
-
-          const amountInWei = parseEther(amount);
-          const transaction = await sendTransaction({
-            to: recipientAddress as `0x${string}`,
-            value: amountInWei,
-            chainId: baseSepolia.id,
-          });
-          
-          return {
-            message: `Transaction sent`, // : ${transaction.hash}
-            // hash: transaction.hash,
-          };
-        } catch (error) {
-          console.error('Error sending transaction:', error);
-          return { error: 'Failed to send transaction' };
-        }
-      }
-    );
-    client.addTool(
-      {
-        name: 'get_account_balance',
-        description: 'Retrieves the current account balance of the connected wallet.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        if (!address) {
-          return { error: 'No wallet connected' };
-        }
-        if (!balance) {
-          return { error: 'Unable to fetch balance' };
-        }
-        setShowBalance(true); // Set showBalance to true when the tool is called
-        return {
-          address: address,
-          balance: balance.formatted,
-          symbol: balance.symbol,
-        };
+    // Add tools, handlers read the latest Console state through the ref
+    mountTools(client, tools, () => ({
+      ...toolContextRef.current!,
+      replay: replayRef.current ?? undefined,
+    }));
+
+    // The API rejects response.create while a response is active, e.g. the one whose
+    // tool call is waiting for confirmation, so our own prompts wait for response.done
+    // Each queued prompt returns its instructions, or null when it no longer applies
+    let responding = false;
+    let queued: (() => string | null)[] = [];
+    const respond = (prompt: () => string | null) => {
+      if (responding) {
+        queued.push(prompt);
+        return;
       }
-    );
-    client.addTool(
-      {
-        name: 'hide_account_balance',
-        description: 'Hides the account balance display.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        setShowBalance(false);
-        return { message: 'Account balance hidden' };
+      const instructions = prompt();
+      if (instructions && client.isConnected()) {
+        responding = true;
+        client.realtime.send('response.create', { response: { instructions } });
       }
-    );
-    client.addTool(
-      {
-        name: 'connect_wallet',
-        description: 'Connects or creates a wallet for the user.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        await connectWallet();
-        return { message: 'Wallet connection initiated' };
+    };
+    client.realtime.on('server.session.created', () => {
+      responding = false;
+      queued = [];
+    });
+    client.realtime.on('server.response.created', () => {
+      responding = true;
+    });
+    client.realtime.on('server.response.done', () => {
+      responding = false;
+      while (!responding && queued.length) {
+        respond(queued.shift()!);
       }
-    );
-    client.addTool(
-      {
-        name: 'disconnect_wallet',
-        description: 'Disconnects the currently connected wallet.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        await disconnectWallet();
-        return { message: 'Wallet disconnected' };
+    });
+
+    // Read value-moving actions aloud while the tool waits for confirmation
+    const confirmations = confirmationsRef.current;
+    let announcedId = '';
+    const unsubscribeConfirmations = confirmations.subscribe(() => {
+      const pending = confirmations.getPending();
+      if (!pending || pending.id === announcedId || !client.isConnected()) {
+        return;
       }
-    );
-    client.addTool(
-      {
-        name: 'swap_usdc_for_ars',
-        description: 'Swaps USDC for ARS using the connected wallet and calls the financial institution to negotiate the best rate and close the deal.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        const result = await approveUsdc();
-        return result;
+      announcedId = pending.id;
+      respond(() =>
+        confirmations.getPending()?.id === pending.id
+          ? `Nothing has been signed yet. Read this to the user and ask them to say "confirm" or "cancel": ` +
+            describeSummary(pending.summary)
+          : null
+      );
+    });
+
+    // Narrate the call to the financial institution as updates arrive
+    const calls = callsRef.current;
+    let narratedCallId = '';
+    let narratedEvents = 0;
+    const unsubscribeCalls = calls.subscribe(() => {
+      const call = calls.getCall();
+      if (!call || !client.isConnected()) {
+        return;
       }
-    );
-    client.addTool(
-      {
-        name: 'get_usdc_balance',
-        description: 'Retrieves the current USDC balance of the connected wallet.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        if (!address) {
-          return { error: 'No wallet connected' };
-        }
-        if (usdcBalance === undefined) {
-          return { error: 'Unable to fetch USDC balance' };
-        }
-        const formattedBalance = formatUnits(usdcBalance, 6); // USDC has 6 decimal places
-        return {
-          address: address,
-          balance: formattedBalance,
-          symbol: 'USDC',
-        };
+      if (call.id !== narratedCallId) {
+        narratedCallId = call.id;
+        narratedEvents = call.events.length;
+        return;
       }
-    );
-    client.addTool(
-      {
-        name: 'verify_usdc_balance_on_blockscout',
-        description: 'Opens a new tab with Blockscout to verify the user\'s USDC balance.',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      async () => {
-        if (!address) {
-          return { error: 'No wallet connected' };
-        }
-
-        const blockscoutUrl = `${BLOCKSCOUT_URL}/address/${address}?tab=tokens`;
-        
-        // Open the URL in a new tab
-        window.open(blockscoutUrl, '_blank');
-
-        return {
-          message: 'A new tab has been opened to verify your USDC balance on Blockscout.',
-        };
+      if (call.events.length === narratedEvents) {
+        return;
       }
-    );
-    client.addTool(
-      {
-        name: 'get_talent_info',
-        description: 'Searches for a person on Talent Protocol and provides a brief summary.',
-        parameters: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'The name of the person to search for on Talent Protocol',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      async ({ name }: { name: string }) => {
-        try {
-          const response = await fetch(`https://api.talentprotocol.com/api/v2/passports?keyword=${encodeURIComponent(name)}`, {
-            headers: { 'x-api-key': process.env.NEXT_PUBLIC_TALENT_API_KEY! }
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-
-          const data = await response.json();
-
-          if (data.passports && data.passports.length > 0) {
-            const firstResult = data.passports[0];
-            const { passport_id } = firstResult;
-            const { display_name, bio, tags, score } = firstResult.passport_profile;
-
-            // setMemoryKv((memoryKv) => {
-            //   const newKv = { ...memoryKv };
-            //   newKv['passport_id'] = passport_id;
-            //   return newKv;
-            // });
-
-            const summary = `${display_name || name} is a ${tags.join(', ')} professional with a Talent Protocol score of ${score}, described as: ${bio || 'No bio available'}. His passport ID is ${passport_id}.`;
-            
-            return { summary };
-          } else {
-            return { summary: `No information found for ${name} on Talent Protocol.` };
-          }
-        } catch (error) {
-          console.error('Error fetching talent info:', error);
-          return { error: 'Failed to fetch talent information' };
-        }
+      narratedEvents = call.events.length;
+      const latest = call.events[call.events.length - 1];
+      let instructions = `Briefly tell the user how the call is going: ${latest.message}.`;
+      if (isCallFinished(call)) {
+        instructions = call.outcome
+          ? `The call to the financial institution ended. Tell the user the result: ${call.outcome.summary}` +
+            (call.outcome.reference ? `, reference ${call.outcome.reference}.` : '.')
+          : `The call to the financial institution ended without a deal (${call.error || latest.message}). Tell the user.`;
       }
-    );
-    client.addTool(
-      {
-        name: 'get_talent_extended_info',
-        description: 'Fetches the Gitcoin Passport score for a Talent Protocol user.',
-        parameters: {
-          type: 'object',
-          properties: {
-            passport_id: {
-              type: 'string',
-              description: 'The passport ID of the person to search for on Talent Protocol',
-            },
-          },
-          required: ['passport_id'],
-        },
-      },
-      async ({ passport_id }: { passport_id: string }) => {
-        try {
-          const response = await fetch(`https://api.talentprotocol.com/api/v2/passport_credentials?passport_id=${passport_id}`, {
-            headers: { 'x-api-key': process.env.NEXT_PUBLIC_TALENT_API_KEY! }
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-
-          const data = await response.json();
-
-          // Find the Gitcoin Passport credential
-          const gitcoinPassport = data.passport_credentials.find(
-            (cred: any) => cred.type === 'gitcoin'
-          );
+      respond(() => instructions);
+    });
 
-          if (gitcoinPassport) {
-            return { 
-              message: `Gitcoin Passport: ${gitcoinPassport.value}`
-            };
-          } else {
-            return {
-              message: "No Gitcoin Passport score found for this user."
-            };
-          }
-        } catch (error) {
-          console.error('Error fetching Gitcoin Passport score:', error);
-          return { error: 'Failed to fetch Gitcoin Passport score' };
-        }
-      }
-    );
+    // Save the conversation as items complete, see the history page
+    const recorder = recorderRef.current;
 
-    // handle realtime events from client + server for event logging
+    // handle realtime events from client + server for the event inspector
+    const eventLog = eventLogRef.current;
     client.on('realtime.event', (realtimeEvent: RealtimeEvent) => {
-      setRealtimeEvents((realtimeEvents) => {
-        const lastEvent = realtimeEvents[realtimeEvents.length - 1];
-        if (lastEvent?.event.type === realtimeEvent.event.type) {
-          // if we receive multiple events in a row, aggregate them for display purposes
-          lastEvent.count = (lastEvent.count || 0) + 1;
-          return realtimeEvents.slice(0, -1).concat(lastEvent);
-        } else {
-          return realtimeEvents.concat(realtimeEvent);
-        }
-      });
+      eventLog.add(realtimeEvent);
     });
     client.on('error', (event: any) => console.error(event));
     client.on('conversation.interrupted', async () => {
@@ -893,6 +724,11 @@ export function Console() {
       if (delta?.audio) {
         wavStreamPlayer.add16BitPCM(delta.audio, item.id);
       }
+      if (item.role === 'user') {
+        // A spoken "confirm" / "cancel" settles a pending transaction, every user item
+        // is passed so those created before the confirmation opened are ignored
+        confirmations.handleUtterance(item.id, item.formatted.transcript || '');
+      }
       if (item.status === 'completed' && item.formatted.audio?.length) {
         const wavFile = await WavRecorder.decode(
           item.formatted.audio,
@@ -901,18 +737,19 @@ export function Console() {
         );
         item.formatted.file = wavFile;
       }
+      if (item.status === 'completed') {
+        recorder.update(items);
+      }
       setItems(items);
 
-      // Update last messages
-      const assistantMessages = items.filter(i => i.role === 'assistant');
-      const userMessages = items.filter(i => i.role === 'user');
-      if (assistantMessages.length > 0) {
-        const lastAssistantItem = assistantMessages[assistantMessages.length - 1];
-        setLastAssistantMessage(lastAssistantItem.formatted.transcript || lastAssistantItem.formatted.text || '');
+      // Update last messages, replays check these through lastMessage() too
+      const assistantMessage = lastMessage(items, 'assistant');
+      const userMessage = lastMessage(items, 'user');
+      if (assistantMessage !== null) {
+        setLastAssistantMessage(assistantMessage);
       }
-      if (userMessages.length > 0) {
-        const lastUserItem = userMessages[userMessages.length - 1];
-        setLastUserMessage(lastUserItem.formatted.transcript || lastUserItem.formatted.text || '');
+      if (userMessage !== null) {
+        setLastUserMessage(userMessage);
       }
     });
 
@@ -920,9 +757,11 @@ export function Console() {
 
     return () => {
       // cleanup; resets to defaults
+      unsubscribeConfirmations();
+      unsubscribeCalls();
       client.reset();
     };
-  }, [isReady, getClient, address, balance, usdcBalance, connectWallet, disconnectWallet, approveUsdc]);
+  }, [isReady, getClient]);
 
   useEffect(() => {
     const handleFocus = () => {
@@ -947,8 +786,62 @@ export function Console() {
         <div className="content-title">
           {/* <img src="/images/openai-logomark.svg" />
           <span>realtime console</span> */}
+          <NetworkIndicator />
         </div>
         <div className="content-api-key">
+          {address && session.status !== 'loading' && (
+            <Button
+              icon={session.status === 'authenticated' ? LogOut : LogIn}
+              iconPosition="end"
+              buttonStyle="flush"
+              label={session.status === 'authenticated' ? 'sign out' : 'sign in'}
+              onClick={() =>
+                session.status === 'authenticated' ? session.signOut() : session.signIn()
+              }
+            />
+          )}
+          {isConnected && items.length > 0 && (
+            <ExportMenu onExport={exportCurrentConversation} />
+          )}
+          <Button
+            icon={Clock}
+            iconPosition="end"
+            buttonStyle="flush"
+            label="history"
+            onClick={() => window.open('/history', '_blank')}
+          />
+          <Button
+            icon={Database}
+            iconPosition="end"
+            buttonStyle="flush"
+            label="memory"
+            onClick={() => setShowMemory(!showMemory)}
+          />
+          {address && (
+            <Button
+              icon={Users}
+              iconPosition="end"
+              buttonStyle="flush"
+              label="contacts"
+              onClick={() => setShowContacts(!showContacts)}
+            />
+          )}
+          <Button
+            icon={Activity}
+            iconPosition="end"
+            buttonStyle="flush"
+            label="events"
+            onClick={() => setShowEvents(!showEvents)}
+          />
+          {address && (
+            <Button
+              icon={Settings}
+              iconPosition="end"
+              buttonStyle="flush"
+              label="spending policy"
+              onClick={() => setShowPolicySettings(!showPolicySettings)}
+            />
+          )}
           {!LOCAL_RELAY_SERVER_URL && apiKey && (
             <Button
               icon={Edit}
@@ -962,6 +855,16 @@ export function Console() {
       </div>
       <div className="content-main">
         <div className="content-logs">
+          {showPolicySettings && address && <PolicySettings address={address} />}
+          {showMemory && <MemoryPanel address={address} entries={memory} />}
+          {showEvents && <EventInspector log={eventLogRef.current} />}
+          {showEvents && (
+            <ReplayPanel
+              canSave={isConnected && items.length > 0}
+              onSave={saveFixture}
+              onReplay={replayFixture}
+            />
+          )}
           {!isConnected && (
             <>
               <div className="smart-wallet-gif">
@@ -1040,83 +943,14 @@ export function Console() {
               >
                 {lastUserMessage}
               </div>
+              <ConfirmationCard manager={confirmationsRef.current} />
+              {activity && <ActivityList items={activity} chainId={chainId} />}
+              {mintedNft && <MintedNftCard nft={mintedNft} />}
+              {signature && <SignatureCard record={signature} />}
+              <CallStatusPanel monitor={callsRef.current} />
             </div>
           </div>
           
-          <div className="content-block events" style={{ display: 'none' }}>
-            {/* <div className="visualization">
-              <div className="visualization-entry client">
-                <canvas ref={clientCanvasRef} />
-              </div>
-              <div className="visualization-entry server">
-                <canvas ref={serverCanvasRef} />
-              </div>
-            </div> */}
-            <div className="content-block-title">events</div>
-            <div className="content-block-body" ref={eventsScrollRef}>
-              {!realtimeEvents.length && `awaiting connection...`}
-              {realtimeEvents.map((realtimeEvent, i) => {
-                const count = realtimeEvent.count;
-                const event = { ...realtimeEvent.event };
-                if (event.type === 'input_audio_buffer.append') {
-                  event.audio = `[trimmed: ${event.audio.length} bytes]`;
-                } else if (event.type === 'response.audio.delta') {
-                  event.delta = `[trimmed: ${event.delta.length} bytes]`;
-                }
-                return (
-                  <div className="event" key={event.event_id}>
-                    <div className="event-timestamp">
-                      {formatTime(realtimeEvent.time)}
-                    </div>
-                    <div className="event-details">
-                      <div
-                        className="event-summary"
-                        onClick={() => {
-                          // toggle event details
-                          const id = event.event_id;
-                          const expanded = { ...expandedEvents };
-                          if (expanded[id]) {
-                            delete expanded[id];
-                          } else {
-                            expanded[id] = true;
-                          }
-                          setExpandedEvents(expanded);
-                        }}
-                      >
-                        <div
-                          className={`event-source ${
-                            event.type === 'error'
-                              ? 'error'
-                              : realtimeEvent.source
-                          }`}
-                        >
-                          {realtimeEvent.source === 'client' ? (
-                            <ArrowUp />
-                          ) : (
-                            <ArrowDown />
-                          )}
-                          <span>
-                            {event.type === 'error'
-                              ? 'error!'
-                              : realtimeEvent.source}
-                          </span>
-                        </div>
-                        <div className="event-type">
-                          {event.type}
-                          {count && ` (${count})`}
-                        </div>
-                      </div>
-                      {!!expandedEvents[event.event_id] && (
-                        <div className="event-payload">
-                          {JSON.stringify(event, null, 2)}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
-          </div>
           <div className="content-block conversation" style={{ display: 'none' }}>
             <div className="content-block-title">conversation</div>
             <div className="content-block-body" data-conversation-content>
@@ -1215,7 +1049,8 @@ export function Console() {
             />
           </div>
         </div>
-        <div className="content-right" style={{ display: 'none' }}>
+        {/* only the contacts panel is shown in this column for now */}
+        <div className="content-right" style={{ display: showContacts && address ? 'flex' : 'none' }}>
         {/* <div className="content-right"> */}
           {/*
           <div className="content-block map">
@@ -1274,8 +1109,8 @@ export function Console() {
                         amount="0.01"
                       />
                       <ApproveUsdcWrapper 
-                        spenderAddress="0x361fd8769c1295Eb75F4E8f51015bc074Eb937B2"
-                        amount="0.01"
+                        spenderAddress={SWAP_SPENDER_ADDRESS}
+                        amount={SWAP_USDC_AMOUNT}
                       />
                       <Button
                         label="Approve USDC and start a call"
@@ -1300,7 +1135,9 @@ export function Console() {
             </div>
           </div>
 
-          <div className="content-block waveform">
+          {address && <ContactsPanel address={address} />}
+
+          <div className="content-block waveform" style={{ display: 'none' }}>
             <div className="content-block-title">
               {/* Assistant */}
               Asistente
@@ -1316,12 +1153,6 @@ export function Console() {
             </div>
           </div>
           
-          <div className="content-block kv" style={{ display: 'none' }}>
-            <div className="content-block-title">set_memory()</div>
-            <div className="content-block-body content-kv">
-              {JSON.stringify(memoryKv, null, 2)}
-            </div>
-          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'react-feather';
+import type { Address } from 'viem';
+import { useChainId } from 'wagmi';
+import { Button } from '@/components/button/Button';
+import {
+  addContact,
+  loadContacts,
+  removeContact,
+  renameContact,
+  subscribeContacts,
+  type Contact,
+} from '@/services/contacts';
+import { resolveRecipient, shortenAddress } from '@/services/names';
+
+import '@/styles/components/ContactsPanel.scss';
+
+/**
+ * Address book of the connected wallet, kept in sync with the contact tools
+ */
+export function ContactsPanel({ address }: { address: Address }) {
+  const chainId = useChainId();
+  const [contacts, setContacts] = useState<Contact[]>(() => loadContacts(address));
+  const [name, setName] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    setContacts(loadContacts(address));
+    return subscribeContacts(() => setContacts(loadContacts(address)));
+  }, [address]);
+
+  const add = async () => {
+    setError(null);
+    setIsAdding(true);
+    try {
+      const resolved = await resolveRecipient(recipient, chainId);
+      addContact(address, { name, address: resolved.address, ensName: resolved.name });
+      setName('');
+      setRecipient('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unable to add contact');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const rename = (contact: Contact, newName: string) => {
+    if (newName.trim() === contact.name) {
+      return;
+    }
+    setError(null);
+    try {
+      renameContact(address, contact.name, newName);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unable to rename contact');
+      setContacts(loadContacts(address));
+    }
+  };
+
+  return (
+    <div data-component="ContactsPanel">
+      <div className="contacts-title">Contacts</div>
+      {contacts.length === 0 && (
+        <div className="contacts-empty">
+          No contacts yet, add one here or say &quot;save alice.base.eth as my sister&quot;
+        </div>
+      )}
+      <ul className="contacts-list">
+        {contacts.map((contact) => (
+          <li key={`${contact.name}:${contact.address}`}>
+            <input
+              className="contact-name"
+              defaultValue={contact.name}
+              onBlur={(e) => rename(contact, e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            />
+            <span className="contact-address" title={contact.address}>
+              {contact.ensName || shortenAddress(contact.address)}
+            </span>
+            <Button
+              label=""
+              title={`Remove ${contact.name}`}
+              icon={Trash2}
+              buttonStyle="flush"
+              onClick={() => removeContact(address, contact.name)}
+            />
+          </li>
+        ))}
+      </ul>
+      <div className="contacts-add">
+        <input
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <input
+          placeholder="Address or name.base.eth"
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+        />
+        <Button
+          label="Add"
+          icon={Plus}
+          buttonStyle="action"
+          disabled={isAdding || !name.trim() || !recipient.trim()}
+          onClick={add}
+        />
+      </div>
+      {error && <div className="contacts-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Download } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import type { ExportFormat } from '@/services/export';
+
+import '@/styles/components/ExportMenu.scss';
+
+const FORMATS: { format: ExportFormat; label: string; title: string }[] = [
+  { format: 'markdown', label: 'md', title: 'Transcript as Markdown' },
+  { format: 'json', label: 'json', title: 'Transcript as JSON' },
+  { format: 'wav', label: 'wav', title: 'Zip of one WAV file per turn' },
+];
+
+/**
+ * Downloads a conversation with its tool calls, as Markdown, JSON or audio
+ */
+export function ExportMenu({ onExport }: { onExport: (format: ExportFormat) => Promise<void> }) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const run = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      window.alert('Unable to export the conversation');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div data-component="ExportMenu">
+      <Download />
+      {FORMATS.map(({ format, label, title }) => (
+        <Button
+          key={format}
+          label={exporting === format ? '...' : label}
+          title={title}
+          buttonStyle="flush"
+          disabled={!!exporting}
+          onClick={() => run(format)}
+        />
+      ))}
+    </div>
+  );
+}
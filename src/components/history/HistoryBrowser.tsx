@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, RefreshCw, Trash2 } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import { ExportMenu } from '@/components/export/ExportMenu';
+import { exportConversation } from '@/services/export';
+import {
+  deleteConversation,
+  describeItem,
+  loadConversationAudio,
+  loadConversations,
+  searchConversations,
+  subscribeHistory,
+  type Conversation,
+} from '@/services/history';
+import { shortenAddress } from '@/services/names';
+
+import '@/styles/components/HistoryBrowser.scss';
+
+/**
+ * Past conversations saved by the Console, searchable and replayable
+ */
+export function HistoryBrowser() {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [audioUrls, setAudioUrls] = useState<{ [itemId: string]: string }>({});
+  const [playingItemId, setPlayingItemId] = useState<string | null>(null);
+  // true while replaying the whole conversation rather than one item
+  const [replaying, setReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setConversations(await loadConversations());
+      setError(null);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      setError('Unable to load saved conversations');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // the Console saves from another tab, pick its writes up when coming back
+    window.addEventListener('focus', refresh);
+    const unsubscribe = subscribeHistory(refresh);
+    return () => {
+      window.removeEventListener('focus', refresh);
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  const results = useMemo(() => searchConversations(conversations, query), [conversations, query]);
+  const selected = conversations.find((conversation) => conversation.id === selectedId) || null;
+
+  useEffect(() => {
+    setPlayingItemId(null);
+    setReplaying(false);
+    if (!selectedId) {
+      setAudioUrls({});
+      return;
+    }
+    let urls: { [itemId: string]: string } = {};
+    let cancelled = false;
+    loadConversationAudio(selectedId)
+      .then((audio) => {
+        if (cancelled) return;
+        urls = audio.reduce(
+          (all, { itemId, blob }) => ({ ...all, [itemId]: URL.createObjectURL(blob) }),
+          {}
+        );
+        setAudioUrls(urls);
+      })
+      .catch((error) => console.error('Error loading conversation audio:', error));
+    return () => {
+      cancelled = true;
+      Object.keys(urls).forEach((itemId) => URL.revokeObjectURL(urls[itemId]));
+    };
+  }, [selectedId]);
+
+  const playableIds = (selected?.items || [])
+    .filter((item) => audioUrls[item.id])
+    .map((item) => item.id);
+
+  const play = (itemId: string | null, all = false) => {
+    setPlayingItemId(itemId);
+    setReplaying(all && !!itemId);
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!itemId) {
+      audio.pause();
+      return;
+    }
+    audio.src = audioUrls[itemId];
+    audio.play().catch((error) => console.error('Error playing audio:', error));
+  };
+
+  const onEnded = () => {
+    if (!replaying || !playingItemId) {
+      play(null);
+      return;
+    }
+    const next = playableIds[playableIds.indexOf(playingItemId) + 1];
+    play(next || null, true);
+  };
+
+  const remove = async (id: string) => {
+    if (!window.confirm('Delete this conversation and its audio?')) return;
+    await deleteConversation(id);
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  return (
+    <div data-component="HistoryBrowser">
+      <div className="history-sidebar">
+        <div className="history-header">
+          <span className="history-title">Conversations</span>
+          <Button label="" title="Refresh" icon={RefreshCw} buttonStyle="flush" onClick={refresh} />
+        </div>
+        <input
+          className="history-search"
+          placeholder="Search transcripts, tools, addresses"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {error && <div className="history-error">{error}</div>}
+        {results.length === 0 && (
+          <div className="history-empty">
+            {conversations.length === 0 ? 'No saved conversations yet' : 'No matches'}
+          </div>
+        )}
+        <ul className="history-list">
+          {results.map((conversation) => (
+            <li
+              key={conversation.id}
+              className={conversation.id === selectedId ? 'selected' : ''}
+              onClick={() => setSelectedId(conversation.id)}
+            >
+              <div className="history-item-title">{conversation.title}</div>
+              <div className="history-item-meta">
+                {new Date(conversation.startedAt).toLocaleString()}
+                {conversation.owner && ` · ${shortenAddress(conversation.owner)}`}
+                {` · ${conversation.items.length} items`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="history-detail">
+        {!selected ? (
+          <div className="history-empty">Select a conversation to read or replay it</div>
+        ) : (
+          <>
+            <div className="history-header">
+              <span className="history-title">{selected.title}</span>
+              <div className="history-actions">
+                <ExportMenu
+                  onExport={(format) =>
+                    exportConversation(format, selected, () => loadConversationAudio(selected.id))
+                  }
+                />
+                <Button
+                  label={playingItemId ? 'Stop' : 'Replay'}
+                  icon={playingItemId ? Pause : Play}
+                  buttonStyle="action"
+                  disabled={playableIds.length === 0}
+                  onClick={() => play(playingItemId ? null : playableIds[0], true)}
+                />
+                <Button
+                  label=""
+                  title="Delete conversation"
+                  icon={Trash2}
+                  buttonStyle="flush"
+                  onClick={() => remove(selected.id)}
+                />
+              </div>
+            </div>
+            <div className="history-meta">
+              Started {new Date(selected.startedAt).toLocaleString()}
+              {selected.endedAt && `, ended ${new Date(selected.endedAt).toLocaleTimeString()}`}
+              {selected.owner && ` · ${selected.owner}`}
+            </div>
+            <ol className="history-transcript">
+              {selected.items.map((item) => (
+                <li
+                  key={item.id}
+                  className={[
+                    item.role || item.type,
+                    item.id === playingItemId ? 'playing' : '',
+                  ].join(' ')}
+                >
+                  <div className="speaker">
+                    {item.tool
+                      ? `tool call · ${item.tool.name}`
+                      : item.type === 'function_call_output'
+                        ? 'tool output'
+                        : item.role}
+                  </div>
+                  {item.type === 'message' ? (
+                    <div className="speech">{describeItem(item) || '(no transcript)'}</div>
+                  ) : (
+                    <pre className="tool">{item.tool ? item.tool.arguments : item.output}</pre>
+                  )}
+                  {audioUrls[item.id] && (
+                    <Button
+                      label={item.id === playingItemId ? 'Stop' : 'Play'}
+                      icon={item.id === playingItemId ? Pause : Play}
+                      buttonStyle="flush"
+                      onClick={() => play(item.id === playingItemId ? null : item.id)}
+                    />
+                  )}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+      <audio ref={audioRef} onEnded={onEnded} />
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { ArrowDown, ArrowUp, Download, Pause, Play, Trash2 } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import { downloadBlob } from '@/services/export';
+import {
+  toJsonl,
+  trimAudio,
+  type EventLog,
+  type LatencyMarker,
+  type RealtimeEvent,
+} from '@/services/events';
+
+import '@/styles/components/EventInspector.scss';
+
+// rendering every audio delta of a long session freezes the page
+const MAX_ROWS = 500;
+
+interface Row {
+  // number of the first event in the row, see EventLog
+  index: number;
+  entry: RealtimeEvent;
+  // consecutive events of the same type are shown once
+  count: number;
+  markers: LatencyMarker[];
+}
+
+function formatTime(time: string, startedAt: number) {
+  const delta = Math.max(0, Date.parse(time) - startedAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const m = Math.floor(delta / 60000) % 60;
+  const s = Math.floor(delta / 1000) % 60;
+  const hs = Math.floor(delta / 10) % 100;
+  return `${pad(m)}:${pad(s)}.${pad(hs)}`;
+}
+
+function formatMs(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * Developer view of the raw Realtime events, filterable, pausable and exportable as JSONL
+ */
+export function EventInspector({ log }: { log: EventLog }) {
+  const range = useSyncExternalStore(
+    (listener) => log.subscribe(listener),
+    () => log.getRange(),
+    () => log.getRange()
+  );
+  // while paused the view stays at the events before pausedAt, the log keeps recording
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [sources, setSources] = useState({ client: true, server: true });
+  const [type, setType] = useState('');
+  const [query, setQuery] = useState('');
+  const [keepAudio, setKeepAudio] = useState(log.keepAudio);
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [expanded, setExpanded] = useState<{ [index: number]: boolean }>({});
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const end = pausedAt ?? range.end;
+
+  /**
+   * Walks back from the newest event until MAX_ROWS rows are filled,
+   * so a long session costs no more than a short one
+   */
+  const rows = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const result: Row[] = [];
+    for (let index = end - 1; index >= range.start; index--) {
+      const entry = log.get(index)!;
+      if (!sources[entry.source] || (type && entry.event.type !== type)) {
+        continue;
+      }
+      if (words.length) {
+        const haystack = JSON.stringify(trimAudio(entry.event)).toLowerCase();
+        if (!words.every((word) => haystack.includes(word))) {
+          continue;
+        }
+      }
+      const first = result[result.length - 1];
+      if (first && first.index - 1 === index && first.entry.event.type === entry.event.type) {
+        first.index = index;
+        first.entry = entry;
+        first.count += 1;
+        first.markers = log.getMarkers(index).concat(first.markers);
+        continue;
+      }
+      if (result.length === MAX_ROWS) {
+        break;
+      }
+      result.push({ index, entry, count: 1, markers: log.getMarkers(index) });
+    }
+    return result.reverse();
+  }, [log, range, end, sources, type, query]);
+
+  // a new connection or Clear starts the log over
+  useEffect(() => {
+    setExpanded({});
+    setPausedAt(null);
+  }, [range.startedAt]);
+
+  /**
+   * Keep the newest events in view unless paused
+   */
+  useEffect(() => {
+    if (pausedAt === null && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [rows, pausedAt]);
+
+  const exportEvents = () => {
+    const stamp = new Date(range.startedAt).toISOString().replace(/[:.]/g, '-');
+    downloadBlob(
+      new Blob([toJsonl(log.getEvents(), { includeAudio })], { type: 'application/x-ndjson' }),
+      `realtime-events-${stamp}.jsonl`
+    );
+  };
+
+  const since = (marker: LatencyMarker) => {
+    const started = log.get(marker.from);
+    return started
+      ? `Since ${started.event.type} at ${formatTime(started.time, range.startedAt)}`
+      : undefined;
+  };
+
+  const toggle = (index: number) => {
+    const next = { ...expanded };
+    if (next[index]) {
+      delete next[index];
+    } else {
+      next[index] = true;
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <div data-component="EventInspector">
+      <div className="inspector-header">
+        <div className="inspector-title">Events</div>
+        <Button
+          label={pausedAt !== null ? 'Resume' : 'Pause'}
+          icon={pausedAt !== null ? Play : Pause}
+          buttonStyle="flush"
+          onClick={() => setPausedAt(pausedAt !== null ? null : range.end)}
+        />
+        <Button label="Clear" icon={Trash2} buttonStyle="flush" onClick={() => log.clear()} />
+      </div>
+      <div className="inspector-filters">
+        {(['client', 'server'] as const).map((source) => (
+          <label key={source} className={`inspector-source ${source}`}>
+            <input
+              type="checkbox"
+              checked={sources[source]}
+              onChange={(e) => setSources({ ...sources, [source]: e.target.checked })}
+            />
+            {source}
+          </label>
+        ))}
+        <select value={type} onChange={(e) => setType(e.target.value)}>
+          <option value="">all event types</option>
+          {log.getTypes().map((eventType) => (
+            <option key={eventType} value={eventType}>
+              {eventType}
+            </option>
+          ))}
+        </select>
+        <input
+          className="inspector-search"
+          placeholder="Search payloads"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+      {pausedAt !== null && range.end !== pausedAt && (
+        <div className="inspector-hint">Paused, {range.end - pausedAt} new events not shown</div>
+      )}
+      <div className="inspector-events" ref={scrollRef}>
+        {!rows.length && (
+          <div className="inspector-hint">
+            {range.end > range.start ? 'No events match the filters' : 'awaiting connection...'}
+          </div>
+        )}
+        {rows.map(({ index, entry, count, markers }) => {
+          const event = trimAudio(entry.event);
+          const source = event.type === 'error' ? 'error' : entry.source;
+          return (
+            <div className="event" key={index}>
+              <div className="event-timestamp">{formatTime(entry.time, range.startedAt)}</div>
+              <div className="event-details">
+                <div className="event-summary" onClick={() => toggle(index)}>
+                  <div className={`event-source ${source}`}>
+                    {entry.source === 'client' ? <ArrowUp /> : <ArrowDown />}
+                    <span>{source === 'error' ? 'error!' : source}</span>
+                  </div>
+                  <div className="event-type">
+                    {event.type}
+                    {count > 1 && ` (${count})`}
+                  </div>
+                  {markers.map((marker) => (
+                    <span
+                      key={`${marker.label}:${marker.from}`}
+                      className="event-latency"
+                      title={since(marker)}
+                    >
+                      {marker.label}: {formatMs(marker.ms)}
+                    </span>
+                  ))}
+                </div>
+                {!!expanded[index] && (
+                  <div className="event-payload">{JSON.stringify(event, null, 2)}</div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="inspector-export">
+        <label>
+          <input
+            type="checkbox"
+            checked={keepAudio}
+            onChange={(e) => {
+              log.keepAudio = e.target.checked;
+              setKeepAudio(e.target.checked);
+            }}
+          />
+          record audio payloads
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={includeAudio}
+            onChange={(e) => setIncludeAudio(e.target.checked)}
+          />
+          include audio payloads
+        </label>
+        <Button
+          label="Export JSONL"
+          icon={Download}
+          buttonStyle="action"
+          disabled={range.end === range.start}
+          onClick={exportEvents}
+        />
+      </div>
+      {includeAudio && (
+        <div className="inspector-hint">
+          {keepAudio
+            ? 'Audio that arrived before recording was turned on stays trimmed in the export'
+            : 'Audio is not being recorded, check "record audio payloads" to export it'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'react-feather';
+import type { Address } from 'viem';
+import { Button } from '@/components/button/Button';
+import {
+  MEMORY_KEY_PATTERN,
+  deleteMemory,
+  setMemory,
+  type MemoryEntry,
+} from '@/services/memory';
+
+import '@/styles/components/MemoryPanel.scss';
+
+/**
+ * What the assistant remembers about the connected wallet, editable by hand
+ */
+export function MemoryPanel({ address, entries }: { address?: Address; entries: MemoryEntry[] }) {
+  const [key, setKey] = useState('');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+  }, [address]);
+
+  const save = async (entryKey: string, entryValue: string) => {
+    setError(null);
+    try {
+      await setMemory(address, entryKey, entryValue);
+    } catch (error) {
+      console.error('Error saving memory:', error);
+      setError('Unable to save memory');
+    }
+  };
+
+  const add = async () => {
+    const normalized = key.trim().toLowerCase().replace(/\s+/g, '_');
+    if (!new RegExp(MEMORY_KEY_PATTERN).test(normalized)) {
+      setError('Keys may only use lowercase letters, digits and underscores');
+      return;
+    }
+    await save(normalized, value);
+    setKey('');
+    setValue('');
+  };
+
+  const remove = async (entryKey: string) => {
+    setError(null);
+    try {
+      await deleteMemory(address, entryKey);
+    } catch (error) {
+      console.error('Error deleting memory:', error);
+      setError('Unable to delete memory');
+    }
+  };
+
+  return (
+    <div data-component="MemoryPanel">
+      <div className="memory-title">Memory</div>
+      {!address && (
+        <div className="memory-hint">Connect a wallet to keep memory between visits</div>
+      )}
+      {entries.length === 0 && (
+        <div className="memory-empty">
+          Nothing saved yet, add something here or say &quot;remember that I prefer pesos&quot;
+        </div>
+      )}
+      <ul className="memory-list">
+        {entries.map((entry) => (
+          <li key={`${entry.key}:${entry.updatedAt}`}>
+            <span className="memory-key">{entry.key}</span>
+            <input
+              className="memory-value"
+              defaultValue={entry.value}
+              onBlur={(e) => e.target.value !== entry.value && save(entry.key, e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            />
+            <Button
+              label=""
+              title={`Forget ${entry.key}`}
+              icon={Trash2}
+              buttonStyle="flush"
+              onClick={() => remove(entry.key)}
+            />
+          </li>
+        ))}
+      </ul>
+      <div className="memory-add">
+        <input placeholder="key" value={key} onChange={(e) => setKey(e.target.value)} />
+        <input placeholder="value" value={value} onChange={(e) => setValue(e.target.value)} />
+        <Button
+          label="Add"
+          icon={Plus}
+          buttonStyle="action"
+          disabled={!key.trim() || !value.trim()}
+          onClick={add}
+        />
+      </div>
+      {error && <div className="memory-error">{error}</div>}
+    </div>
+  );
+}
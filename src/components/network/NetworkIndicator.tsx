@@ -0,0 +1,23 @@
+import { useChainId } from 'wagmi';
+import { getChainConfig } from '@/chains';
+
+import '@/styles/components/NetworkIndicator.scss';
+
+/**
+ * Shows which network transactions will be sent to
+ */
+export function NetworkIndicator() {
+  const chainId = useChainId();
+  const { chain, testnet } = getChainConfig(chainId);
+
+  return (
+    <div
+      data-component="NetworkIndicator"
+      className={testnet ? 'testnet' : 'mainnet'}
+      title={testnet ? 'Test network' : 'Mainnet, real funds'}
+    >
+      <span className="network-dot" />
+      <span className="network-name">{chain.name}</span>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { Image as ImageIcon } from 'react-feather';
+import type { MintedNft } from '@/services/nft';
+import { shortenAddress } from '@/services/names';
+
+import '@/styles/components/MintedNftCard.scss';
+
+/**
+ * The NFT minted by the last mint_nft call
+ */
+export function MintedNftCard({ nft }: { nft: MintedNft }) {
+  return (
+    <div data-component="MintedNftCard">
+      <div className="nft-media">
+        {nft.image ? (
+          // metadata images live on arbitrary hosts next/image is not configured for
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={nft.image} alt={nft.name || `Token #${nft.tokenId}`} />
+        ) : (
+          <ImageIcon />
+        )}
+      </div>
+      <div className="nft-details">
+        <div className="nft-title">{nft.name || `Token #${nft.tokenId}`}</div>
+        <div className="nft-owner" title={nft.owner}>
+          Minted to {shortenAddress(nft.owner)}
+        </div>
+        <a className="nft-link" href={nft.explorerUrl} target="_blank" rel="noreferrer">
+          View token #{nft.tokenId}
+        </a>
+      </div>
+    </div>
+  );
+}
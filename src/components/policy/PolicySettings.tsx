@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'react-feather';
+import type { Address } from 'viem';
+import { Button } from '@/components/button/Button';
+import {
+  POLICY_TOKENS,
+  PolicyError,
+  loadPolicy,
+  savePolicy,
+  type SpendingPolicy,
+} from '@/services/policy';
+
+import '@/styles/components/PolicySettings.scss';
+
+/**
+ * Editor for the connected wallet's spending policy
+ */
+export function PolicySettings({ address }: { address: Address }) {
+  const [policy, setPolicy] = useState<SpendingPolicy>(() => loadPolicy(address));
+  const [recipientsText, setRecipientsText] = useState('');
+  const [isSaved, setIsSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stored = loadPolicy(address);
+    setPolicy(stored);
+    setRecipientsText(stored.recipients.addresses.join('\n'));
+    setIsSaved(false);
+    setError(null);
+  }, [address]);
+
+  const updateLimit = (
+    symbol: string,
+    field: 'perTransaction' | 'daily',
+    value: string
+  ) => {
+    setIsSaved(false);
+    setPolicy((policy) => ({
+      ...policy,
+      limits: {
+        ...policy.limits,
+        [symbol]: { ...policy.limits[symbol], [field]: value.trim() || undefined },
+      },
+    }));
+  };
+
+  const save = () => {
+    const addresses = recipientsText
+      .split(/[\s,]+/)
+      .filter(Boolean) as Address[];
+    try {
+      savePolicy(address, {
+        ...policy,
+        recipients: { ...policy.recipients, addresses },
+      });
+    } catch (error) {
+      if (!(error instanceof PolicyError)) {
+        throw error;
+      }
+      setError(error.message);
+      setIsSaved(false);
+      return;
+    }
+    setError(null);
+    const stored = loadPolicy(address);
+    setPolicy(stored);
+    setRecipientsText(stored.recipients.addresses.join('\n'));
+    setIsSaved(true);
+  };
+
+  return (
+    <div data-component="PolicySettings">
+      <div className="policy-title">Spending policy</div>
+      <table className="policy-limits">
+        <thead>
+          <tr>
+            <th>Token</th>
+            <th>Per transaction</th>
+            <th>Daily</th>
+          </tr>
+        </thead>
+        <tbody>
+          {POLICY_TOKENS.map((symbol) => (
+            <tr key={symbol}>
+              <td>{symbol}</td>
+              <td>
+                <input
+                  inputMode="decimal"
+                  placeholder="no limit"
+                  value={policy.limits[symbol]?.perTransaction || ''}
+                  onChange={(e) => updateLimit(symbol, 'perTransaction', e.target.value)}
+                />
+              </td>
+              <td>
+                <input
+                  inputMode="decimal"
+                  placeholder="no limit"
+                  value={policy.limits[symbol]?.daily || ''}
+                  onChange={(e) => updateLimit(symbol, 'daily', e.target.value)}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <label className="policy-field">
+        <span>Recipients</span>
+        <select
+          value={policy.recipients.mode}
+          onChange={(e) => {
+            setIsSaved(false);
+            setPolicy((policy) => ({
+              ...policy,
+              recipients: {
+                ...policy.recipients,
+                mode: e.target.value as SpendingPolicy['recipients']['mode'],
+              },
+            }));
+          }}
+        >
+          <option value="off">Any recipient</option>
+          <option value="allowlist">Only these addresses</option>
+          <option value="blocklist">Never these addresses</option>
+        </select>
+      </label>
+      {policy.recipients.mode !== 'off' && (
+        <textarea
+          className="policy-recipients"
+          placeholder="One address per line"
+          value={recipientsText}
+          onChange={(e) => {
+            setIsSaved(false);
+            setRecipientsText(e.target.value);
+          }}
+        />
+      )}
+      <label className="policy-field">
+        <span>New recipient cooldown (minutes)</span>
+        <input
+          type="number"
+          min={0}
+          value={policy.newRecipientCooldownMinutes}
+          onChange={(e) => {
+            setIsSaved(false);
+            setPolicy((policy) => ({
+              ...policy,
+              newRecipientCooldownMinutes: Math.max(0, Number(e.target.value) || 0),
+            }));
+          }}
+        />
+      </label>
+      <div className="policy-actions">
+        {error && <span className="policy-error">{error}</span>}
+        {isSaved && <span className="policy-saved">Saved</span>}
+        <Button label="Save" icon={Save} buttonStyle="action" onClick={save} />
+      </div>
+    </div>
+  );
+}
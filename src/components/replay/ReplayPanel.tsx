@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { Download, PlayCircle } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import { ReplayError, parseFixture, type ReplayFixture } from '@/services/replay';
+
+import '@/styles/components/ReplayPanel.scss';
+
+type ReplayStatus =
+  | { state: 'idle' }
+  | { state: 'running'; name: string; events: number }
+  | { state: 'done'; name: string; differences: string[]; hasExpected: boolean }
+  | { state: 'failed'; message: string };
+
+/**
+ * Saves the session as a fixture and replays fixtures against the Console
+ */
+export function ReplayPanel({
+  canSave,
+  onSave,
+  onReplay,
+}: {
+  canSave: boolean;
+  onSave: () => void;
+  onReplay: (fixture: ReplayFixture) => Promise<string[]>;
+}) {
+  const [status, setStatus] = useState<ReplayStatus>({ state: 'idle' });
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const replay = async (file: File) => {
+    try {
+      const fixture = parseFixture(await file.text());
+      setStatus({ state: 'running', name: file.name, events: fixture.events.length });
+      const differences = await onReplay(fixture);
+      setStatus({
+        state: 'done',
+        name: file.name,
+        differences,
+        hasExpected: !!fixture.expected,
+      });
+    } catch (error) {
+      if (!(error instanceof ReplayError)) {
+        console.error('Error replaying fixture:', error);
+      }
+      setStatus({
+        state: 'failed',
+        message: error instanceof ReplayError ? error.message : 'Unable to replay the file',
+      });
+    }
+  };
+
+  return (
+    <div data-component="ReplayPanel">
+      <div className="replay-title">Record and replay</div>
+      <div className="replay-actions">
+        <Button
+          label="Save fixture"
+          icon={Download}
+          buttonStyle="flush"
+          disabled={!canSave}
+          onClick={onSave}
+        />
+        <Button
+          label="Replay fixture"
+          icon={PlayCircle}
+          buttonStyle="flush"
+          disabled={status.state === 'running'}
+          onClick={() => inputRef.current?.click()}
+        />
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.jsonl,application/json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) {
+              replay(file);
+            }
+          }}
+        />
+      </div>
+      {status.state === 'running' && (
+        <div className="replay-hint">
+          Replaying {status.events} events from {status.name}...
+        </div>
+      )}
+      {status.state === 'done' && status.differences.length === 0 && (
+        <div className="replay-passed">
+          {status.name} matches the recording
+          {!status.hasExpected && ', only tool outputs were compared'}
+        </div>
+      )}
+      {status.state === 'done' && status.differences.length > 0 && (
+        <>
+          <div className="replay-failed">
+            {status.name} differs from the recording in {status.differences.length} places
+          </div>
+          <ul className="replay-differences">
+            {status.differences.map((difference) => (
+              <li key={difference}>{difference}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      {status.state === 'failed' && <div className="replay-failed">{status.message}</div>}
+    </div>
+  );
+}
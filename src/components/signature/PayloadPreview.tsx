@@ -0,0 +1,32 @@
+import type { PayloadPreview as Preview } from '@/services/signatures';
+
+import '@/styles/components/PayloadPreview.scss';
+
+/**
+ * What is or was signed, the text as is or the typed data field by field
+ */
+export function PayloadPreview({ preview }: { preview: Preview }) {
+  if (preview.method === 'personal_sign') {
+    return (
+      <div data-component="PayloadPreview">
+        <pre className="payload-message">{preview.message}</pre>
+      </div>
+    );
+  }
+  return (
+    <div data-component="PayloadPreview">
+      <div className="payload-type">
+        {preview.primaryType}
+        {preview.domain && <span className="payload-domain"> · {preview.domain}</span>}
+      </div>
+      <dl className="payload-fields">
+        {(preview.fields || []).map(({ name, value }) => (
+          <div key={name} className="payload-field">
+            <dt>{name}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
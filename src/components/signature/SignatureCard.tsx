@@ -0,0 +1,49 @@
+import { CheckCircle, Copy, XCircle } from 'react-feather';
+import { Button } from '@/components/button/Button';
+import { shortenAddress } from '@/services/names';
+import type { SignatureRecord, WalletKind } from '@/services/signatures';
+import { PayloadPreview } from './PayloadPreview';
+
+import '@/styles/components/SignatureCard.scss';
+
+const WALLET_LABELS: { [kind in WalletKind]: string } = {
+  eoa: 'Regular wallet',
+  smart_wallet: 'Smart wallet (ERC-1271)',
+  undeployed_smart_wallet: 'Smart wallet, not deployed yet (ERC-6492)',
+};
+
+/**
+ * The message signed by sign_message, or checked by verify_signature
+ */
+export function SignatureCard({ record }: { record: SignatureRecord }) {
+  const signer = record.signerName || shortenAddress(record.signer);
+
+  return (
+    <div data-component="SignatureCard">
+      <div className="signature-header">
+        <span className="signature-title">
+          {record.action === 'signed' ? `Signed by ${signer}` : `Signature by ${signer}`}
+        </span>
+        {record.action === 'verified' && (
+          <span className={`signature-status ${record.valid ? 'valid' : 'invalid'}`}>
+            {record.valid ? <CheckCircle /> : <XCircle />}
+            {record.valid ? 'Valid' : 'Invalid'}
+          </span>
+        )}
+      </div>
+      <PayloadPreview preview={record.preview} />
+      {record.walletKind && (
+        <div className="signature-wallet">{WALLET_LABELS[record.walletKind]}</div>
+      )}
+      <div className="signature-value">
+        <code>{record.signature}</code>
+        <Button
+          icon={Copy}
+          buttonStyle="flush"
+          label="copy"
+          onClick={() => navigator.clipboard.writeText(record.signature)}
+        />
+      </div>
+    </div>
+  );
+}
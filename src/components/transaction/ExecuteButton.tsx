@@ -0,0 +1,70 @@
+'use client';
+import { useState } from 'react';
+import { useChainId } from 'wagmi';
+import { Button } from '@/components/button/Button';
+import { getChainConfig } from '@/chains';
+import type { ExecutionResult } from '@/services/executor';
+
+type ExecuteState = { status: 'idle' } | { status: 'pending' } | ExecutionResult;
+
+const STATUS_LABELS: { [status in ExecuteState['status']]: string } = {
+  idle: '',
+  pending: 'Waiting for the wallet...',
+  success: 'Transaction confirmed',
+  reverted: 'Transaction reverted',
+  rejected: 'Rejected in the wallet',
+  error: 'Transaction failed',
+};
+
+interface ExecuteButtonProps {
+  label: string;
+  execute: () => Promise<ExecutionResult>;
+  onResult?: (result: ExecutionResult) => void;
+}
+
+/**
+ * Button that runs a transaction through the executor and shows how it went
+ */
+export function ExecuteButton({ label, execute, onResult }: ExecuteButtonProps) {
+  const chainId = useChainId();
+  const [state, setState] = useState<ExecuteState>({ status: 'idle' });
+
+  const run = async () => {
+    setState({ status: 'pending' });
+    const result = await execute();
+    setState(result);
+    onResult?.(result);
+  };
+
+  const hash = 'hash' in state ? state.hash : undefined;
+
+  return (
+    <div className="flex w-[450px] max-w-full flex-col items-center gap-2">
+      <Button
+        label={label}
+        buttonStyle="action"
+        disabled={state.status === 'pending'}
+        onClick={run}
+        className="mt-0 mr-auto ml-auto w-[450px] max-w-full text-[white]"
+      />
+      {state.status !== 'idle' && (
+        <div className="text-sm">
+          {state.status === 'error' ? state.message : STATUS_LABELS[state.status]}
+          {hash && (
+            <>
+              {' '}
+              <a
+                href={`${getChainConfig(chainId).explorerUrl}/tx/${hash}`}
+                target="_blank"
+                rel="noreferrer"
+                className="underline"
+              >
+                View transaction
+              </a>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
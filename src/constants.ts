@@ -1,5 +1,6 @@
-export const BASE_SEPOLIA_CHAIN_ID = 84532;
-export const mintContractAddress = '0xA3e40bBe8E8579Cd2619Ef9C6fEA362b760dac9f';
+// Counterparty allowed to pull USDC when swapping for ARS
+export const SWAP_SPENDER_ADDRESS = '0x361fd8769c1295Eb75F4E8f51015bc074Eb937B2';
+export const SWAP_USDC_AMOUNT = '0.01';
 export const mintABI = [
   {
     inputs: [
@@ -11,7 +12,7 @@ export const mintABI = [
     ],
     name: 'mint',
     outputs: [],
-    stateMutability: 'public',
+    stateMutability: 'nonpayable',
     type: 'function',
   },
 ] as const;
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SiweMessage } from 'siwe';
+import type { Address } from 'viem';
+import { useAccount, useConfig } from 'wagmi';
+import { signMessage } from 'wagmi/actions';
+import { isUserRejection } from '@/services/executor';
+
+export type SessionStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+/**
+ * The Sign-In with Ethereum session as the server sees it
+ * A session for another wallet than the connected one does not count
+ */
+export interface SessionState {
+  status: SessionStatus;
+  address?: Address;
+  chainId?: number;
+  expiresAt?: number;
+}
+
+export type SignInResult =
+  | { status: 'authenticated'; address: Address }
+  | { status: 'rejected' }
+  | { status: 'error'; message: string };
+
+interface SessionResponse {
+  authenticated: boolean;
+  address?: Address;
+  chainId?: number;
+  expiresAt?: number;
+  error?: string;
+}
+
+function toState(response: SessionResponse): SessionState {
+  return response.authenticated
+    ? {
+        status: 'authenticated',
+        address: response.address,
+        chainId: response.chainId,
+        expiresAt: response.expiresAt,
+      }
+    : { status: 'unauthenticated' };
+}
+
+export function useSession() {
+  const config = useConfig();
+  const { address, chainId } = useAccount();
+  const [session, setSession] = useState<SessionState>({ status: 'loading' });
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/session', { cache: 'no-store' });
+      setSession(toState(await response.json()));
+    } catch (error) {
+      console.error('Error loading session:', error);
+      setSession({ status: 'unauthenticated' });
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Asks the connected wallet to sign a sign in message and starts a session
+   */
+  const signIn = useCallback(async (): Promise<SignInResult> => {
+    if (!address || !chainId) {
+      return { status: 'error', message: 'Connect a wallet before signing in' };
+    }
+    try {
+      const { nonce } = await (await fetch('/api/auth/nonce', { cache: 'no-store' })).json();
+      const message = new SiweMessage({
+        domain: window.location.host,
+        address,
+        statement: 'Sign in to Talk2 Smart Wallet.',
+        uri: window.location.origin,
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt: new Date().toISOString(),
+      }).prepareMessage();
+
+      let signature;
+      try {
+        signature = await signMessage(config, { account: address, message });
+      } catch (error) {
+        if (isUserRejection(error)) {
+          return { status: 'rejected' };
+        }
+        throw error;
+      }
+
+      const response = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      });
+      const result: SessionResponse = await response.json();
+      if (!response.ok) {
+        return { status: 'error', message: result.error || 'Unable to sign in' };
+      }
+      setSession(toState(result));
+      return { status: 'authenticated', address: result.address! };
+    } catch (error) {
+      console.error('Error signing in:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Unable to sign in',
+      };
+    }
+  }, [config, address, chainId]);
+
+  const signOut = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setSession({ status: 'unauthenticated' });
+    }
+  }, []);
+
+  const belongsToWallet =
+    !!address && session.address?.toLowerCase() === address.toLowerCase();
+  const state: SessionState =
+    session.status === 'authenticated' && !belongsToWallet
+      ? { status: 'unauthenticated' }
+      : session;
+
+  return { ...state, signIn, signOut, refresh };
+}
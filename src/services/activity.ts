@@ -0,0 +1,219 @@
+import { formatEther, formatUnits, getAddress, parseAbiItem, type Address, type Hash } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import type { Config } from 'wagmi';
+import { getChainConfig } from '@/chains';
+import { listTokens } from '@/tokens';
+
+export type ActivityDirection = 'sent' | 'received';
+
+export interface ActivityItem {
+  hash: Hash;
+  blockNumber: number;
+  // milliseconds since epoch
+  timestamp: number;
+  direction: ActivityDirection;
+  counterparty: Address;
+  // contact, ENS name or Basename of the counterparty, filled in by the caller
+  counterpartyName?: string;
+  // decimal string in token units
+  amount: string;
+  symbol: string;
+}
+
+export interface ActivityQuery {
+  owner: Address;
+  chainId: number;
+  // milliseconds since epoch, older transfers are left out
+  since: number;
+  limit: number;
+}
+
+/**
+ * Where transfer history comes from, swap it out for an indexer or a stub
+ */
+export interface ActivitySource {
+  getActivity(query: ActivityQuery): Promise<ActivityItem[]>;
+}
+
+export interface RpcActivitySourceOptions {
+  // blocks per eth_getLogs request, public endpoints reject wide ranges
+  chunkSize?: number;
+}
+
+/**
+ * A transaction as listed by the Blockscout account API, numbers are decimal strings
+ */
+interface ExplorerTransaction {
+  hash: Hash;
+  blockNumber: string;
+  timeStamp: string;
+  from: string;
+  to: string;
+  value: string;
+  isError: string;
+}
+
+const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+);
+
+function sameAddress(a?: string | null, b?: string | null) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * ETH transfers of owner between two blocks from the explorer's Etherscan compatible API,
+ * ETH leaves no logs to filter. Internal transactions are included since smart wallets
+ * send ETH from inside a user operation, not as the transaction itself
+ */
+async function fetchNativeTransfers(
+  explorerUrl: string,
+  owner: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<ActivityItem[]> {
+  const lists = await Promise.all(
+    ['txlist', 'txlistinternal'].map(async (action) => {
+      const params = new URLSearchParams({
+        module: 'account',
+        action,
+        address: owner,
+        startblock: fromBlock.toString(),
+        endblock: toBlock.toString(),
+        sort: 'desc',
+      });
+      const response = await fetch(`${explorerUrl}/api?${params}`);
+      if (!response.ok) {
+        throw new Error(`Blockscout ${action} failed with status ${response.status}`);
+      }
+      const body = await response.json();
+      // an empty window comes back as status 0 with an empty result
+      if (!Array.isArray(body.result) || (body.status !== '1' && body.result.length)) {
+        throw new Error(`Blockscout ${action} failed: ${body.message}`);
+      }
+      return body.result as ExplorerTransaction[];
+    })
+  );
+
+  const items: ActivityItem[] = [];
+  const seen: { [key: string]: boolean } = {};
+  lists[0].concat(lists[1]).forEach((tx) => {
+    const key = `${tx.hash}:${tx.from}:${tx.to}:${tx.value}`;
+    if (seen[key] || tx.isError === '1' || tx.value === '0') return;
+    seen[key] = true;
+    const sent = sameAddress(tx.from, owner);
+    const counterparty = sent ? tx.to : tx.from;
+    // contract creations have no recipient
+    if ((!sent && !sameAddress(tx.to, owner)) || !counterparty) return;
+    items.push({
+      hash: tx.hash,
+      blockNumber: Number(tx.blockNumber),
+      timestamp: Number(tx.timeStamp) * 1000,
+      direction: sent ? 'sent' : 'received',
+      counterparty: getAddress(counterparty),
+      amount: formatEther(BigInt(tx.value)),
+      symbol: 'ETH',
+    });
+  });
+  return items;
+}
+
+function newestFirst(items: ActivityItem[], limit: number) {
+  return items
+    .sort((a, b) => b.timestamp - a.timestamp || b.blockNumber - a.blockNumber)
+    .slice(0, limit);
+}
+
+/**
+ * Reads history straight from the chain: ERC-20 Transfer logs of the
+ * supported tokens over the whole window, newest chunk first, plus ETH
+ * transfers over the same window from the chain's Blockscout
+ */
+export function createRpcActivitySource(
+  config: Config,
+  { chunkSize = 5000 }: RpcActivitySourceOptions = {}
+): ActivitySource {
+  return {
+    async getActivity({ owner, chainId, since, limit }) {
+      const client = getPublicClient(config, { chainId });
+      if (!client) {
+        throw new Error(`No RPC client for chain ${chainId}`);
+      }
+      const tokens = listTokens(chainId);
+      const latest = await client.getBlockNumber();
+      const { blockTimeSeconds, explorerUrl } = getChainConfig(chainId);
+      const span = BigInt(Math.ceil((Date.now() - since) / 1000 / blockTimeSeconds));
+      const firstBlock = latest > span ? latest - span : BigInt(0);
+
+      const native = await fetchNativeTransfers(explorerUrl, owner, firstBlock, latest);
+      const items: ActivityItem[] = native.slice();
+      const seen: { [key: string]: boolean } = {};
+      const blockTimes: { [block: string]: number } = {};
+      native.forEach((item) => {
+        blockTimes[item.blockNumber.toString()] = item.timestamp;
+      });
+
+      const step = BigInt(chunkSize);
+      let toBlock = latest;
+      // the newest limit token transfers are enough, ETH ones cover the window already
+      while (toBlock >= firstBlock && items.length - native.length < limit) {
+        const chunkStart = toBlock - step + BigInt(1);
+        const fromBlock = chunkStart > firstBlock ? chunkStart : firstBlock;
+        const range = {
+          address: tokens.map((token) => token.address),
+          event: TRANSFER_EVENT,
+          fromBlock,
+          toBlock,
+        };
+        const [sentLogs, receivedLogs] = await Promise.all([
+          client.getLogs({ ...range, args: { from: owner } }),
+          client.getLogs({ ...range, args: { to: owner } }),
+        ]);
+        sentLogs.concat(receivedLogs).forEach((log) => {
+          const key = `${log.transactionHash}:${log.logIndex}`;
+          const token = tokens.find((token) => sameAddress(token.address, log.address));
+          if (seen[key] || !token || log.blockNumber === null) return;
+          seen[key] = true;
+          const sent = sameAddress(log.args.from, owner);
+          items.push({
+            hash: log.transactionHash!,
+            blockNumber: Number(log.blockNumber),
+            timestamp: 0,
+            direction: sent ? 'sent' : 'received',
+            counterparty: (sent ? log.args.to : log.args.from)!,
+            amount: formatUnits(log.args.value ?? BigInt(0), token.decimals),
+            symbol: token.symbol,
+          });
+        });
+        if (fromBlock === BigInt(0)) break;
+        toBlock = fromBlock - BigInt(1);
+      }
+
+      // only the blocks of transfers we keep need their timestamps
+      const kept = items.sort((a, b) => b.blockNumber - a.blockNumber).slice(0, limit);
+      for (const item of kept) {
+        const key = item.blockNumber.toString();
+        if (blockTimes[key] === undefined) {
+          const block = await client.getBlock({ blockNumber: BigInt(item.blockNumber) });
+          blockTimes[key] = Number(block.timestamp) * 1000;
+        }
+        item.timestamp = blockTimes[key];
+      }
+      return newestFirst(kept.filter((item) => item.timestamp >= since), limit);
+    },
+  };
+}
+
+/**
+ * Serves a fixed list, for tests and demos without an RPC endpoint
+ */
+export function createStaticActivitySource(items: ActivityItem[]): ActivitySource {
+  return {
+    async getActivity({ since, limit }) {
+      return newestFirst(
+        items.filter((item) => item.timestamp >= since),
+        limit
+      );
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { SiweMessage, generateNonce } from 'siwe';
+import { createPublicClient, getAddress, http, type Address, type Hex } from 'viem';
+import { CHAINS } from '@/chains';
+
+// Server side only: signs and reads the Sign-In with Ethereum session cookies
+
+export const SESSION_COOKIE = 'siwe-session';
+export const NONCE_COOKIE = 'siwe-nonce';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const NONCE_TTL_SECONDS = 10 * 60;
+
+/**
+ * A verified sign in, the address is what server side data is keyed by
+ */
+export interface Session {
+  address: Address;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export class AuthError extends Error {
+  constructor(
+    public reason: 'invalid' | 'nonce_mismatch' | 'expired' | 'bad_signature',
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// without SESSION_SECRET sessions only last until the server restarts
+let fallbackSecret: Buffer | undefined;
+
+function getSecret() {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set to sign in with Ethereum');
+  }
+  fallbackSecret = fallbackSecret || randomBytes(32);
+  return fallbackSecret;
+}
+
+/**
+ * Host sign in messages must be made for, never read from request headers since
+ * the client picks those. SIWE_DOMAIN wins, then the Vercel deployment URL
+ */
+export function getSiweDomain() {
+  const domain =
+    process.env.SIWE_DOMAIN ||
+    process.env.VERCEL_PROJECT_PRODUCTION_URL ||
+    process.env.VERCEL_URL;
+  if (domain) {
+    return domain;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SIWE_DOMAIN must be set to sign in with Ethereum');
+  }
+  return `localhost:${process.env.PORT || 3000}`;
+}
+
+function sign(payload: string) {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * payload.signature, where payload is base64url JSON
+ */
+export function sealCookie(value: unknown) {
+  const payload = Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The sealed value, or undefined when the cookie was tampered with
+ */
+export function unsealCookie<T>(cookie: string | undefined): T | undefined {
+  if (!cookie) return undefined;
+  const [payload, signature] = cookie.split('.');
+  if (!payload || !signature) return undefined;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return undefined;
+  }
+}
+
+export function createNonce() {
+  const nonce = generateNonce();
+  const cookie = sealCookie({ nonce, expiresAt: Date.now() + NONCE_TTL_SECONDS * 1000 });
+  return { nonce, cookie };
+}
+
+export function readNonce(cookie: string | undefined) {
+  const sealed = unsealCookie<{ nonce: string; expiresAt: number }>(cookie);
+  return sealed && sealed.expiresAt > Date.now() ? sealed.nonce : undefined;
+}
+
+export function readSession(cookie: string | undefined, now = Date.now()) {
+  const session = unsealCookie<Session>(cookie);
+  return session && session.expiresAt > now ? session : undefined;
+}
+
+/**
+ * Session of the current request, for route handlers that keep per user data
+ */
+export function getSession() {
+  return readSession(cookies().get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * HTTP-only so scripts in the page can never read or forge the session
+ */
+export function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+/**
+ * Checks a signed EIP-4361 message against the nonce we handed out and the configured
+ * domain, see getSiweDomain(). The signature goes through viem so smart wallets, deployed
+ * (ERC-1271) or not yet (ERC-6492), can sign in too
+ */
+export async function verifySignIn({
+  message,
+  signature,
+  nonce,
+  domain,
+  now = Date.now(),
+}: {
+  message: string;
+  signature: Hex;
+  nonce: string | undefined;
+  domain: string;
+  now?: number;
+}): Promise<Session> {
+  let siwe: SiweMessage;
+  try {
+    siwe = new SiweMessage(message);
+  } catch {
+    throw new AuthError('invalid', 'The sign in message is not a valid EIP-4361 message');
+  }
+  if (!nonce || siwe.nonce !== nonce) {
+    throw new AuthError('nonce_mismatch', 'The sign in request expired, request a new nonce');
+  }
+  if (siwe.domain !== domain) {
+    throw new AuthError('invalid', `The message was made for ${siwe.domain}, not ${domain}`);
+  }
+  let uriHost = '';
+  try {
+    uriHost = new URL(siwe.uri).host;
+  } catch {
+    // an unparsable uri fails the check below
+  }
+  if (uriHost !== domain) {
+    throw new AuthError('invalid', `The message uri ${siwe.uri} is not on ${domain}`);
+  }
+  if (siwe.expirationTime && Date.parse(siwe.expirationTime) <= now) {
+    throw new AuthError('expired', 'The sign in message has expired');
+  }
+  if (siwe.notBefore && Date.parse(siwe.notBefore) > now) {
+    throw new AuthError('invalid', 'The sign in message is not valid yet');
+  }
+  const chain = CHAINS[siwe.chainId]?.chain;
+  if (!chain) {
+    throw new AuthError('invalid', `Chain ${siwe.chainId} is not supported`);
+  }
+
+  const address = getAddress(siwe.address);
+  const client = createPublicClient({ chain, transport: http() });
+  const valid = await client.verifyMessage({ address, message, signature });
+  if (!valid) {
+    throw new AuthError('bad_signature', 'The signature does not match the address');
+  }
+
+  return {
+    address,
+    chainId: siwe.chainId,
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_SECONDS * 1000,
+  };
+}
@@ -0,0 +1,33 @@
+import { erc20Abi, formatUnits, type Address } from 'viem';
+import { readContract } from 'wagmi/actions';
+import type { Config } from 'wagmi';
+import type { Token } from '@/tokens';
+
+export interface TokenBalance {
+  value: bigint;
+  formatted: string;
+  symbol: string;
+}
+
+/**
+ * Reads an ERC-20 balance straight from the chain, no hook per token needed
+ */
+export async function readTokenBalance(
+  config: Config,
+  token: Token,
+  owner: Address,
+  chainId: number
+): Promise<TokenBalance> {
+  const value = await readContract(config, {
+    address: token.address,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [owner],
+    chainId,
+  });
+  return {
+    value,
+    formatted: formatUnits(value, token.decimals),
+    symbol: token.symbol,
+  };
+}
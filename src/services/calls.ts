@@ -0,0 +1,355 @@
+import type { Address } from 'viem';
+
+/**
+ * Lifecycle of the phone call the backend places to the financial institution
+ */
+export type CallStatus =
+  | 'queued'
+  | 'ringing'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+const FINISHED_STATUSES: CallStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface CallEvent {
+  // milliseconds since epoch
+  at: number;
+  status: CallStatus;
+  message: string;
+}
+
+export interface CallOutcome {
+  // whether the institution accepted a deal
+  agreed: boolean;
+  summary: string;
+  // ARS per USDC, when a rate was negotiated
+  rate?: string;
+  // USDC covered by the deal
+  amount?: string;
+  reference?: string;
+}
+
+export interface Call {
+  id: string;
+  status: CallStatus;
+  createdAt: number;
+  updatedAt: number;
+  events: CallEvent[];
+  outcome?: CallOutcome;
+  error?: string;
+}
+
+export interface StartCallRequest {
+  owner: Address;
+  // what the call should achieve, e.g. "sell 25 USDC for ARS"
+  purpose: string;
+  amount?: string;
+  quoteId?: string;
+}
+
+export class CallBackendError extends Error {
+  // HTTP status, when the backend answered at all
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'CallBackendError';
+    this.status = status;
+  }
+}
+
+/**
+ * The service that places and tracks calls
+ */
+export interface CallBackend {
+  startCall(request: StartCallRequest): Promise<Call>;
+  getCall(id: string): Promise<Call>;
+  cancelCall(id: string): Promise<Call>;
+  // pushes every update until the call finishes, backends without it are polled
+  streamCall?(id: string, onUpdate: (call: Call) => void): () => void;
+}
+
+export function isCallFinished(call: Call) {
+  return FINISHED_STATUSES.includes(call.status);
+}
+
+interface WireCall {
+  id: string;
+  status: CallStatus;
+  created_at: string;
+  updated_at: string;
+  events?: { at: string; status: CallStatus; message: string }[];
+  outcome?: {
+    agreed: boolean;
+    summary: string;
+    rate?: string;
+    amount?: string;
+    reference?: string;
+  };
+  error?: string;
+}
+
+function fromWire(wire: WireCall): Call {
+  if (!wire || typeof wire.id !== 'string' || typeof wire.status !== 'string') {
+    throw new CallBackendError('The call service sent an unexpected response');
+  }
+  return {
+    id: wire.id,
+    status: wire.status,
+    createdAt: Date.parse(wire.created_at),
+    updatedAt: Date.parse(wire.updated_at),
+    events: (wire.events || []).map((event) => ({ ...event, at: Date.parse(event.at) })),
+    outcome: wire.outcome,
+    error: wire.error,
+  };
+}
+
+/**
+ * Client for the BACKEND call service
+ * POST /call starts a call, GET /call/:id reads it, POST /call/:id/cancel hangs up
+ */
+export function createHttpCallBackend(baseUrl: string): CallBackend {
+  const request = async (path: string, init?: RequestInit): Promise<Call> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      console.error('Error reaching the call service:', error);
+      throw new CallBackendError('The call service is unreachable');
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new CallBackendError(
+        body?.error || `The call service answered ${response.status}`,
+        response.status
+      );
+    }
+    return fromWire(body);
+  };
+
+  return {
+    startCall: ({ owner, purpose, amount, quoteId }) =>
+      request('/call', {
+        method: 'POST',
+        body: JSON.stringify({ owner, purpose, amount, quote_id: quoteId }),
+      }),
+    getCall: (id) => request(`/call/${encodeURIComponent(id)}`),
+    cancelCall: (id) => request(`/call/${encodeURIComponent(id)}/cancel`, { method: 'POST' }),
+  };
+}
+
+export interface MockCallBackendOptions {
+  // time between scripted steps
+  stepMs?: number;
+  // ARS per USDC the mock institution agrees to
+  rate?: string;
+}
+
+/**
+ * Scripted in-browser backend for development, it never places a real call
+ */
+export function createMockCallBackend({
+  stepMs = 3000,
+  rate = '1162.50',
+}: MockCallBackendOptions = {}): CallBackend {
+  const calls = new Map<string, Call>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const listeners = new Map<string, Set<(call: Call) => void>>();
+
+  const update = (id: string, status: CallStatus, message: string, patch: Partial<Call> = {}) => {
+    const previous = calls.get(id)!;
+    const now = Date.now();
+    const call: Call = {
+      ...previous,
+      ...patch,
+      status,
+      updatedAt: now,
+      events: previous.events.concat({ at: now, status, message }),
+    };
+    calls.set(id, call);
+    listeners.get(id)?.forEach((listener) => listener(call));
+    return call;
+  };
+
+  const script = (id: string, request: StartCallRequest) => {
+    const amount = request.amount || '0';
+    const steps: [CallStatus, string, Partial<Call>?][] = [
+      ['ringing', 'Dialing the financial institution'],
+      ['in_progress', 'Connected, explaining the request'],
+      ['in_progress', `Negotiating a rate for ${amount} USDC`],
+      [
+        'completed',
+        'Call finished',
+        {
+          outcome: {
+            agreed: true,
+            summary: `The institution agreed to ${rate} ARS per USDC for ${amount} USDC`,
+            rate,
+            amount,
+            reference: `MOCK-CALL-${id.slice(-4).toUpperCase()}`,
+          },
+        },
+      ],
+    ];
+    const next = (index: number) => {
+      const step = steps[index];
+      if (!step || isCallFinished(calls.get(id)!)) return;
+      timers.set(
+        id,
+        setTimeout(() => {
+          update(id, step[0], step[1], step[2]);
+          next(index + 1);
+        }, stepMs)
+      );
+    };
+    next(0);
+  };
+
+  const find = (id: string) => {
+    const call = calls.get(id);
+    if (!call) {
+      throw new CallBackendError(`Unknown call ${id}`, 404);
+    }
+    return call;
+  };
+
+  return {
+    async startCall(request) {
+      const now = Date.now();
+      const id = `mock-call-${now.toString(36)}`;
+      calls.set(id, {
+        id,
+        status: 'queued',
+        createdAt: now,
+        updatedAt: now,
+        events: [{ at: now, status: 'queued', message: `Call requested: ${request.purpose}` }],
+      });
+      script(id, request);
+      return calls.get(id)!;
+    },
+    async getCall(id) {
+      return find(id);
+    },
+    async cancelCall(id) {
+      const call = find(id);
+      if (isCallFinished(call)) {
+        return call;
+      }
+      clearTimeout(timers.get(id));
+      return update(id, 'cancelled', 'Call cancelled by the user');
+    },
+    streamCall(id, onUpdate) {
+      if (!listeners.has(id)) listeners.set(id, new Set());
+      listeners.get(id)!.add(onUpdate);
+      return () => {
+        listeners.get(id)?.delete(onUpdate);
+      };
+    },
+  };
+}
+
+/**
+ * Tracks the current call for the UI and the assistant
+ * Streams updates when the backend can, otherwise polls until the call finishes
+ */
+export class CallMonitor {
+  backend: CallBackend;
+  pollMs: number;
+  private call: Call | null = null;
+  private stopWatching: (() => void) | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(backend: CallBackend, { pollMs = 2000 }: { pollMs?: number } = {}) {
+    this.backend = backend;
+    this.pollMs = pollMs;
+  }
+
+  /**
+   * Places a call, refusing while another one is still running
+   */
+  async start(request: StartCallRequest): Promise<Call> {
+    if (this.call && !isCallFinished(this.call)) {
+      throw new CallBackendError('A call is already in progress');
+    }
+    const call = await this.backend.startCall(request);
+    this.set(call);
+    if (!isCallFinished(call)) {
+      this.watch(call.id);
+    }
+    return call;
+  }
+
+  /**
+   * Hangs up the current call, returns null when there is none running
+   */
+  async cancel(): Promise<Call | null> {
+    if (!this.call || isCallFinished(this.call)) {
+      return null;
+    }
+    const call = await this.backend.cancelCall(this.call.id);
+    this.set(call);
+    return call;
+  }
+
+  /**
+   * Fetches the latest state of the current call
+   */
+  async refresh(): Promise<Call | null> {
+    if (!this.call) {
+      return null;
+    }
+    const call = await this.backend.getCall(this.call.id);
+    this.set(call);
+    return call;
+  }
+
+  getCall() {
+    return this.call;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose() {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    this.listeners.clear();
+  }
+
+  private set(call: Call) {
+    if (this.call && this.call.id === call.id && this.call.updatedAt > call.updatedAt) {
+      return;
+    }
+    this.call = call;
+    if (isCallFinished(call)) {
+      this.stopWatching?.();
+      this.stopWatching = null;
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private watch(id: string) {
+    this.stopWatching?.();
+    if (this.backend.streamCall) {
+      this.stopWatching = this.backend.streamCall(id, (call) => this.set(call));
+      return;
+    }
+    const interval = setInterval(async () => {
+      try {
+        this.set(await this.backend.getCall(id));
+      } catch (error) {
+        console.error('Error polling call status:', error);
+      }
+    }, this.pollMs);
+    this.stopWatching = () => clearInterval(interval);
+  }
+}
@@ -0,0 +1,172 @@
+import { getAddress, type Address } from 'viem';
+
+export interface Contact {
+  name: string;
+  address: Address;
+  // ENS name or Basename the contact was added with, if any
+  ensName?: string;
+  createdAt: number;
+}
+
+export type ContactErrorReason = 'invalid' | 'duplicate' | 'not_found';
+
+export class ContactError extends Error {
+  reason: ContactErrorReason;
+
+  constructor(reason: ContactErrorReason, message: string) {
+    super(message);
+    this.name = 'ContactError';
+    this.reason = reason;
+  }
+}
+
+const listeners = new Set<() => void>();
+// while a replay runs contacts live here instead of localStorage, see isolateContacts()
+let isolatedContacts: { [key: string]: string } | null = null;
+
+function contactsKey(owner: Address) {
+  return `contacts::${owner.toLowerCase()}`;
+}
+
+/**
+ * Reduces "my Sister", "sister's" or " Sister " to the same lookup key
+ */
+export function normalizeContactName(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/^(my|mi)\s+/, '')
+    .replace(/'s$/, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Starts an empty address book kept in this page until the returned function is called,
+ * so a replay never reads or writes the user's contacts
+ */
+export function isolateContacts() {
+  isolatedContacts = {};
+  emit();
+  return () => {
+    isolatedContacts = null;
+    emit();
+  };
+}
+
+function emit() {
+  listeners.forEach((listener) => listener());
+}
+
+export function loadContacts(owner: Address): Contact[] {
+  try {
+    const stored = isolatedContacts
+      ? isolatedContacts[contactsKey(owner)]
+      : localStorage.getItem(contactsKey(owner));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading contacts:', error);
+    return [];
+  }
+}
+
+function saveContacts(owner: Address, contacts: Contact[]) {
+  if (isolatedContacts) {
+    isolatedContacts[contactsKey(owner)] = JSON.stringify(contacts);
+  } else {
+    localStorage.setItem(contactsKey(owner), JSON.stringify(contacts));
+  }
+  emit();
+}
+
+export function subscribeContacts(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function findContact(owner: Address, name: string): Contact | undefined {
+  const key = normalizeContactName(name);
+  if (!key) {
+    return undefined;
+  }
+  return loadContacts(owner).find(
+    (contact) => normalizeContactName(contact.name) === key
+  );
+}
+
+export function findContactByAddress(owner: Address, address: string): Contact | undefined {
+  return loadContacts(owner).find(
+    (contact) => contact.address.toLowerCase() === address.toLowerCase()
+  );
+}
+
+function validateName(name: string) {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!normalizeContactName(trimmed)) {
+    throw new ContactError('invalid', 'A contact needs a name');
+  }
+  if (/^0x/i.test(trimmed) || /\.eth$/i.test(trimmed)) {
+    throw new ContactError(
+      'invalid',
+      `${trimmed} looks like an address or ENS name, contacts need a plain name`
+    );
+  }
+  return trimmed;
+}
+
+export function addContact(
+  owner: Address,
+  contact: { name: string; address: Address; ensName?: string }
+): Contact {
+  const name = validateName(contact.name);
+  const existing = findContact(owner, name);
+  if (existing) {
+    throw new ContactError(
+      'duplicate',
+      `There is already a contact called ${existing.name}`
+    );
+  }
+  const added: Contact = {
+    name,
+    address: getAddress(contact.address),
+    ensName: contact.ensName,
+    createdAt: Date.now(),
+  };
+  saveContacts(owner, loadContacts(owner).concat(added));
+  return added;
+}
+
+export function renameContact(owner: Address, name: string, newName: string): Contact {
+  const contact = findContact(owner, name);
+  if (!contact) {
+    throw new ContactError('not_found', `No contact called ${name}`);
+  }
+  const renamed = validateName(newName);
+  const clash = findContact(owner, renamed);
+  if (clash && normalizeContactName(clash.name) !== normalizeContactName(contact.name)) {
+    throw new ContactError('duplicate', `There is already a contact called ${clash.name}`);
+  }
+  const updated = { ...contact, name: renamed };
+  saveContacts(
+    owner,
+    loadContacts(owner).map((c) =>
+      normalizeContactName(c.name) === normalizeContactName(contact.name) ? updated : c
+    )
+  );
+  return updated;
+}
+
+export function removeContact(owner: Address, name: string): Contact {
+  const contact = findContact(owner, name);
+  if (!contact) {
+    throw new ContactError('not_found', `No contact called ${name}`);
+  }
+  saveContacts(
+    owner,
+    loadContacts(owner).filter(
+      (c) => normalizeContactName(c.name) !== normalizeContactName(contact.name)
+    )
+  );
+  return contact;
+}
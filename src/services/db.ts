@@ -0,0 +1,58 @@
+// IndexedDB database shared by the stores that outlive a page load
+
+const DB_NAME = 'talk2-smart-wallet';
+const DB_VERSION = 2;
+
+export const MEMORY_STORE = 'memory';
+export const CONVERSATION_STORE = 'conversations';
+// decoded audio of conversation items, kept apart so listing conversations stays cheap
+export const AUDIO_STORE = 'conversation_audio';
+
+let database: Promise<IDBDatabase> | undefined;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const memory = db.createObjectStore(MEMORY_STORE, { keyPath: ['owner', 'key'] });
+    memory.createIndex('owner', 'owner');
+  }
+  if (oldVersion < 2) {
+    const conversations = db.createObjectStore(CONVERSATION_STORE, { keyPath: 'id' });
+    conversations.createIndex('startedAt', 'startedAt');
+    db.createObjectStore(AUDIO_STORE, { keyPath: ['conversationId', 'itemId'] });
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // let a later call try again, e.g. after the user allows storage
+    database.catch(() => {
+      database = undefined;
+    });
+  }
+  return database;
+}
+
+/**
+ * Runs fn in a transaction on storeName and resolves with its request's result
+ * once the transaction has committed
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
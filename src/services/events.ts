@@ -0,0 +1,243 @@
+export interface RealtimeEventPayload {
+  type: string;
+  event_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * An event the Realtime client sent or received, as emitted by 'realtime.event'
+ */
+export interface RealtimeEvent {
+  time: string;
+  source: 'client' | 'server';
+  event: RealtimeEventPayload;
+}
+
+/**
+ * Time between two related events, e.g. a tool call and its output
+ */
+export interface LatencyMarker {
+  label: string;
+  // number of the event that started the pair, see EventLog
+  from: number;
+  ms: number;
+}
+
+interface PairRule {
+  label: string;
+  start: (event: RealtimeEvent) => string | null;
+  end: (event: RealtimeEvent) => string | null;
+}
+
+function responseId(event: RealtimeEventPayload) {
+  return (event.response as { id?: string } | undefined)?.id || null;
+}
+
+// each rule returns a pairing key for events that start or end a pair, null otherwise
+const PAIR_RULES: PairRule[] = [
+  {
+    label: 'end of speech to first audio',
+    start: ({ source, event }) =>
+      source === 'server' && event.type === 'input_audio_buffer.speech_stopped' ? 'turn' : null,
+    end: ({ source, event }) =>
+      source === 'server' && event.type === 'response.audio.delta' ? 'turn' : null,
+  },
+  {
+    label: 'response requested to created',
+    start: ({ source, event }) =>
+      source === 'client' && event.type === 'response.create' ? 'response' : null,
+    end: ({ source, event }) =>
+      source === 'server' && event.type === 'response.created' ? 'response' : null,
+  },
+  {
+    label: 'response duration',
+    start: ({ source, event }) =>
+      source === 'server' && event.type === 'response.created' ? responseId(event) : null,
+    end: ({ source, event }) =>
+      source === 'server' && event.type === 'response.done' ? responseId(event) : null,
+  },
+  {
+    label: 'tool call to output',
+    start: ({ source, event }) =>
+      source === 'server' && event.type === 'response.function_call_arguments.done'
+        ? (event.call_id as string)
+        : null,
+    end: ({ source, event }) => {
+      const item = event.item as { type?: string; call_id?: string } | undefined;
+      if (source !== 'client' || event.type !== 'conversation.item.create') {
+        return null;
+      }
+      return item?.type === 'function_call_output' ? item.call_id || null : null;
+    },
+  },
+  {
+    label: 'session update',
+    start: ({ source, event }) =>
+      source === 'client' && event.type === 'session.update' ? 'session' : null,
+    end: ({ source, event }) =>
+      source === 'server' && event.type === 'session.updated' ? 'session' : null,
+  },
+];
+
+/**
+ * Replaces base64 audio with its length, the payloads drown everything else
+ */
+export function trimAudio(event: RealtimeEventPayload): RealtimeEventPayload {
+  if (event.type === 'input_audio_buffer.append' && typeof event.audio === 'string') {
+    return { ...event, audio: `[trimmed: ${event.audio.length} bytes]` };
+  }
+  if (event.type === 'response.audio.delta' && typeof event.delta === 'string') {
+    return { ...event, delta: `[trimmed: ${event.delta.length} bytes]` };
+  }
+  return event;
+}
+
+export function toJsonl(events: RealtimeEvent[], { includeAudio = false } = {}) {
+  return events
+    .map(({ time, source, event }) =>
+      JSON.stringify({ time, source, event: includeAudio ? event : trimAudio(event) })
+    )
+    .join('\n');
+}
+
+/**
+ * Which events an EventLog keeps, a new object on every add or clear
+ * so views can depend on it
+ */
+export interface EventLogRange {
+  start: number;
+  end: number;
+  startedAt: number;
+}
+
+/**
+ * Every raw event of the session, capped so long sessions cannot exhaust memory
+ * Events are numbered from the start of the log, the oldest drop out once it is full
+ * Audio is trimmed as it arrives unless keepAudio is set, it is most of the bytes,
+ * so exports can only include the audio recorded while it was set
+ */
+export class EventLog {
+  maxEvents: number;
+  keepAudio: boolean;
+  // timestamps in the inspector are relative to this
+  startedAt = Date.now();
+  // number of the oldest event still kept and of the next one to arrive
+  start = 0;
+  end = 0;
+  private events: RealtimeEvent[] = [];
+  // latency markers by the number of the event that ends each pair
+  private markers: { [index: number]: LatencyMarker[] } = {};
+  // number of the event that started each open pair, per rule
+  private open: { [key: string]: number }[] = PAIR_RULES.map(() => ({}));
+  private types: string[] = [];
+  private range: EventLogRange = { start: 0, end: 0, startedAt: this.startedAt };
+  private snapshot: { range: EventLogRange; events: RealtimeEvent[] } | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor({
+    maxEvents = 20000,
+    keepAudio = false,
+  }: { maxEvents?: number; keepAudio?: boolean } = {}) {
+    this.maxEvents = maxEvents;
+    this.keepAudio = keepAudio;
+  }
+
+  add({ time, source, event }: RealtimeEvent) {
+    const entry = { time, source, event: this.keepAudio ? event : trimAudio(event) };
+    const index = this.end;
+    this.events[index % this.maxEvents] = entry;
+    this.end += 1;
+    if (this.end - this.start > this.maxEvents) {
+      delete this.markers[this.start];
+      this.start += 1;
+    }
+    this.pair(entry, index);
+    if (!this.types.includes(event.type)) {
+      this.types = this.types.concat(event.type).sort();
+    }
+    this.emit();
+  }
+
+  clear() {
+    this.events = [];
+    this.markers = {};
+    this.open = PAIR_RULES.map(() => ({}));
+    this.types = [];
+    this.start = 0;
+    this.end = 0;
+    this.startedAt = Date.now();
+    this.emit();
+  }
+
+  /**
+   * Event by its number, undefined once it dropped out of the log
+   */
+  get(index: number): RealtimeEvent | undefined {
+    return index >= this.start && index < this.end
+      ? this.events[index % this.maxEvents]
+      : undefined;
+  }
+
+  getMarkers(index: number): LatencyMarker[] {
+    return this.markers[index] || [];
+  }
+
+  // event types seen since the log started, sorted
+  getTypes() {
+    return this.types;
+  }
+
+  // replaced on every add or clear, for useSyncExternalStore
+  getRange() {
+    return this.range;
+  }
+
+  /**
+   * Every kept event oldest first, copied once per change
+   */
+  getEvents() {
+    if (this.snapshot?.range !== this.range) {
+      const events: RealtimeEvent[] = [];
+      for (let index = this.start; index < this.end; index++) {
+        events.push(this.events[index % this.maxEvents]);
+      }
+      this.snapshot = { range: this.range, events };
+    }
+    return this.snapshot.events;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Closes the pairs entry ends and opens those it starts
+   */
+  private pair(entry: RealtimeEvent, index: number) {
+    PAIR_RULES.forEach((rule, ruleIndex) => {
+      const open = this.open[ruleIndex];
+      const endKey = rule.end(entry);
+      if (endKey && open[endKey] !== undefined) {
+        const from = open[endKey];
+        delete open[endKey];
+        const started = this.get(from);
+        if (started) {
+          const ms = Date.parse(entry.time) - Date.parse(started.time);
+          this.markers[index] = this.getMarkers(index).concat({ label: rule.label, from, ms });
+        }
+      }
+      const startKey = rule.start(entry);
+      if (startKey) {
+        open[startKey] = index;
+      }
+    });
+  }
+
+  private emit() {
+    this.range = { start: this.start, end: this.end, startedAt: this.startedAt };
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  BaseError,
+  UserRejectedRequestError,
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+} from 'viem';
+import {
+  connect,
+  disconnect,
+  getAccount,
+  sendTransaction,
+  waitForTransactionReceipt,
+  writeContract,
+  type SendTransactionParameters,
+  type WriteContractParameters,
+} from 'wagmi/actions';
+import type { Config } from 'wagmi';
+
+// Coinbase Smart Wallet, offered first like in the wallet modal
+const PREFERRED_CONNECTOR_ID = 'coinbaseWalletSDK';
+
+/**
+ * How a transaction ended, never thrown so callers can branch on status
+ */
+export type ExecutionResult =
+  | { status: 'success'; hash: Hash; receipt: TransactionReceipt }
+  | { status: 'reverted'; hash: Hash; receipt: TransactionReceipt }
+  | { status: 'rejected' }
+  | { status: 'error'; message: string; hash?: Hash };
+
+export type ConnectionResult =
+  | { status: 'connected'; address: Address; chainId: number }
+  | { status: 'rejected' }
+  | { status: 'error'; message: string };
+
+export function isUserRejection(error: unknown) {
+  return (
+    error instanceof BaseError &&
+    !!error.walk((cause) => cause instanceof UserRejectedRequestError)
+  );
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Waits for the wallet signature, then for the receipt on chainId
+ */
+export async function executeTransaction(
+  config: Config,
+  chainId: number,
+  send: () => Promise<Hash>
+): Promise<ExecutionResult> {
+  let hash: Hash;
+  try {
+    hash = await send();
+  } catch (error) {
+    if (isUserRejection(error)) {
+      return { status: 'rejected' };
+    }
+    console.error('Error sending transaction:', error);
+    return { status: 'error', message: errorMessage(error, 'Failed to send transaction') };
+  }
+
+  try {
+    const receipt = await waitForTransactionReceipt(config, { hash, chainId });
+    return { status: receipt.status, hash, receipt };
+  } catch (error) {
+    console.error('Error waiting for receipt:', error);
+    return {
+      status: 'error',
+      message: 'The transaction was sent but its receipt could not be fetched',
+      hash,
+    };
+  }
+}
+
+export function executeSendTransaction(
+  config: Config,
+  parameters: SendTransactionParameters<Config> & { chainId: number }
+) {
+  return executeTransaction(config, parameters.chainId, () =>
+    sendTransaction(config, parameters)
+  );
+}
+
+export function executeContractWrite(
+  config: Config,
+  parameters: WriteContractParameters & { chainId: number }
+) {
+  return executeTransaction(config, parameters.chainId, () =>
+    writeContract(config, parameters)
+  );
+}
+
+/**
+ * Connects the preferred wallet without going through the wallet modal
+ */
+export async function connectWallet(config: Config): Promise<ConnectionResult> {
+  const account = getAccount(config);
+  if (account.status === 'connected') {
+    return { status: 'connected', address: account.address, chainId: account.chainId };
+  }
+  const connector =
+    config.connectors.find((connector) => connector.id === PREFERRED_CONNECTOR_ID) ||
+    config.connectors[0];
+  if (!connector) {
+    return { status: 'error', message: 'No wallet connector is configured' };
+  }
+  try {
+    const { accounts, chainId } = await connect(config, { connector });
+    return { status: 'connected', address: accounts[0], chainId };
+  } catch (error) {
+    if (isUserRejection(error)) {
+      return { status: 'rejected' };
+    }
+    console.error('Error connecting wallet:', error);
+    return { status: 'error', message: errorMessage(error, 'Unable to connect the wallet') };
+  }
+}
+
+export async function disconnectWallet(config: Config) {
+  await disconnect(config);
+}
@@ -0,0 +1,188 @@
+import { WavRecorder } from '@/lib/wavtools/index.js';
+import { createZip } from '@/utils/zip';
+import {
+  describeItem,
+  type Conversation,
+  type ConversationAudio,
+  type ConversationItem,
+  type RealtimeItemLike,
+} from './history';
+
+// the Realtime API streams 24kHz 16-bit mono PCM
+const SAMPLE_RATE = 24000;
+
+function speakerOf(item: ConversationItem) {
+  if (item.tool) return `Tool call: ${item.tool.name}`;
+  if (item.type === 'function_call_output') return 'Tool output';
+  return item.role === 'assistant' ? 'Assistant' : item.role === 'user' ? 'User' : 'System';
+}
+
+function prettyJson(value: string | undefined) {
+  try {
+    return JSON.stringify(JSON.parse(value || ''), null, 2);
+  } catch {
+    return value || '';
+  }
+}
+
+function fileStem(conversation: Conversation) {
+  return `conversation-${new Date(conversation.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+}
+
+/**
+ * File name for an item's audio, numbered in conversation order
+ */
+function wavName(conversation: Conversation, itemId: string) {
+  const index = conversation.items.findIndex((item) => item.id === itemId);
+  const item = conversation.items[index];
+  const turn = String(index + 1).padStart(3, '0');
+  return `${turn}-${item?.role || 'audio'}-${itemId}.wav`;
+}
+
+export function conversationToMarkdown(conversation: Conversation) {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `- Started: ${new Date(conversation.startedAt).toISOString()}`,
+  ];
+  if (conversation.endedAt) {
+    lines.push(`- Ended: ${new Date(conversation.endedAt).toISOString()}`);
+  }
+  if (conversation.owner) lines.push(`- Wallet: ${conversation.owner}`);
+  if (conversation.chainId) lines.push(`- Chain ID: ${conversation.chainId}`);
+  lines.push(`- Conversation ID: ${conversation.id}`, '');
+
+  conversation.items.forEach((item, index) => {
+    lines.push(`## ${index + 1}. ${speakerOf(item)}`, '');
+    if (item.type === 'message') {
+      lines.push(describeItem(item) || '_(no transcript)_');
+    } else {
+      const body = item.tool ? item.tool.arguments : item.output;
+      lines.push('```json', prettyJson(body), '```');
+    }
+    if (item.hasAudio) {
+      lines.push('', `Audio: \`${wavName(conversation, item.id)}\``);
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Structured export, tool arguments and outputs parsed back into JSON when they are
+ */
+export function conversationToJson(conversation: Conversation) {
+  const parse = (value: string | undefined) => {
+    try {
+      return JSON.parse(value || '');
+    } catch {
+      return value ?? null;
+    }
+  };
+  return JSON.stringify(
+    {
+      id: conversation.id,
+      title: conversation.title,
+      owner: conversation.owner ?? null,
+      chain_id: conversation.chainId ?? null,
+      started_at: new Date(conversation.startedAt).toISOString(),
+      ended_at: conversation.endedAt ? new Date(conversation.endedAt).toISOString() : null,
+      items: conversation.items.map((item) => ({
+        id: item.id,
+        type: item.type,
+        role: item.role ?? null,
+        status: item.status ?? null,
+        text: item.text ?? null,
+        transcript: item.transcript ?? null,
+        tool_call: item.tool
+          ? {
+              name: item.tool.name,
+              call_id: item.tool.callId,
+              arguments: parse(item.tool.arguments),
+            }
+          : null,
+        tool_output:
+          item.type === 'function_call_output'
+            ? { call_id: item.callId ?? null, output: parse(item.output) }
+            : null,
+        audio_file: item.hasAudio ? wavName(conversation, item.id) : null,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * WAV blobs of the live client's items, decoding any that were not decoded yet
+ */
+export async function collectLiveAudio(
+  conversationId: string,
+  items: RealtimeItemLike[]
+): Promise<ConversationAudio[]> {
+  const audio: ConversationAudio[] = [];
+  for (const item of items) {
+    let blob = item.formatted.file?.blob;
+    if (!blob && item.formatted.audio?.length) {
+      blob = (await WavRecorder.decode(item.formatted.audio, SAMPLE_RATE, SAMPLE_RATE)).blob;
+    }
+    if (blob) {
+      audio.push({ conversationId, itemId: item.id, blob });
+    }
+  }
+  return audio;
+}
+
+/**
+ * One WAV per turn plus the JSON export so the files can be matched to the transcript
+ */
+export async function createWavBundle(conversation: Conversation, audio: ConversationAudio[]) {
+  const files = [
+    {
+      name: 'conversation.json',
+      data: new TextEncoder().encode(conversationToJson(conversation)),
+    },
+  ];
+  for (const { itemId, blob } of audio) {
+    files.push({
+      name: wavName(conversation, itemId),
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+  return createZip(files);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'wav';
+
+/**
+ * Builds and downloads the conversation in the given format
+ */
+export async function exportConversation(
+  format: ExportFormat,
+  conversation: Conversation,
+  loadAudio: () => Promise<ConversationAudio[]>
+) {
+  const stem = fileStem(conversation);
+  if (format === 'markdown') {
+    downloadBlob(
+      new Blob([conversationToMarkdown(conversation)], { type: 'text/markdown' }),
+      `${stem}.md`
+    );
+  } else if (format === 'json') {
+    downloadBlob(
+      new Blob([conversationToJson(conversation)], { type: 'application/json' }),
+      `${stem}.json`
+    );
+  } else {
+    downloadBlob(await createWavBundle(conversation, await loadAudio()), `${stem}-audio.zip`);
+  }
+}
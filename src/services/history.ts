@@ -0,0 +1,248 @@
+import type { Address } from 'viem';
+import { AUDIO_STORE, CONVERSATION_STORE, withStore } from './db';
+
+/**
+ * A conversation item as saved, without the raw audio
+ */
+export interface ConversationItem {
+  id: string;
+  type: 'message' | 'function_call' | 'function_call_output';
+  role?: 'user' | 'assistant' | 'system';
+  status?: string;
+  text?: string;
+  transcript?: string;
+  tool?: { name: string; callId: string; arguments: string };
+  // function_call_output, as the tool returned it
+  output?: string;
+  callId?: string;
+  hasAudio: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  owner?: Address;
+  chainId?: number;
+  startedAt: number;
+  updatedAt: number;
+  endedAt?: number;
+  // first thing the user said, to tell conversations apart
+  title: string;
+  items: ConversationItem[];
+}
+
+export interface ConversationAudio {
+  conversationId: string;
+  itemId: string;
+  blob: Blob;
+}
+
+/**
+ * The parts of the Realtime client's ItemType we keep
+ */
+export interface RealtimeItemLike {
+  id: string;
+  type: string;
+  role?: string;
+  status?: string;
+  call_id?: string;
+  formatted: {
+    text?: string;
+    transcript?: string;
+    output?: string;
+    tool?: { name: string; call_id: string; arguments: string };
+    audio?: Int16Array;
+    file?: { blob: Blob };
+  };
+}
+
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeHistory(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function audioRange(conversationId: string) {
+  // [id] sorts before every [id, itemId] and [id, []] after them
+  return IDBKeyRange.bound([conversationId], [conversationId, []]);
+}
+
+export function toConversationItem(item: RealtimeItemLike): ConversationItem {
+  const { formatted } = item;
+  return {
+    id: item.id,
+    type: item.type as ConversationItem['type'],
+    role: item.role as ConversationItem['role'],
+    status: item.status,
+    text: formatted.text || undefined,
+    transcript: formatted.transcript || undefined,
+    tool: formatted.tool && {
+      name: formatted.tool.name,
+      callId: formatted.tool.call_id,
+      arguments: formatted.tool.arguments,
+    },
+    output: formatted.output,
+    callId: item.call_id,
+    hasAudio: !!formatted.file || !!formatted.audio?.length,
+  };
+}
+
+export function describeItem(item: ConversationItem) {
+  if (item.tool) {
+    return `${item.tool.name}(${item.tool.arguments})`;
+  }
+  if (item.type === 'function_call_output') {
+    return item.output || '';
+  }
+  return item.transcript || item.text || '';
+}
+
+/**
+ * What the user first said aloud, the typed greeting sent on connect is a last resort
+ */
+function titleFor(items: ConversationItem[]) {
+  const userItems = items.filter((item) => item.role === 'user');
+  const first =
+    userItems.find((item) => item.transcript?.trim()) ||
+    userItems.find((item) => describeItem(item).trim());
+  return first ? describeItem(first).trim().slice(0, 80) : 'Untitled conversation';
+}
+
+/**
+ * Newest first
+ */
+export async function loadConversations(): Promise<Conversation[]> {
+  const conversations = await withStore<Conversation[]>(CONVERSATION_STORE, 'readonly', (store) =>
+    store.getAll()
+  );
+  return conversations.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function loadConversation(id: string) {
+  return withStore<Conversation | undefined>(CONVERSATION_STORE, 'readonly', (store) =>
+    store.get(id)
+  );
+}
+
+export function loadConversationAudio(id: string) {
+  return withStore<ConversationAudio[]>(AUDIO_STORE, 'readonly', (store) =>
+    store.getAll(audioRange(id))
+  );
+}
+
+export async function deleteConversation(id: string) {
+  await withStore(CONVERSATION_STORE, 'readwrite', (store) => store.delete(id));
+  await withStore(AUDIO_STORE, 'readwrite', (store) => store.delete(audioRange(id)));
+  emit();
+}
+
+/**
+ * Conversations whose title, transcripts, tool calls or outputs contain every word of query
+ */
+export function searchConversations(conversations: Conversation[], query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return conversations;
+  }
+  return conversations.filter((conversation) => {
+    const haystack = [conversation.title, conversation.owner || '']
+      .concat(conversation.items.map(describeItem))
+      .join('\n')
+      .toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
+
+/**
+ * Saves the conversation as it goes, one write at a time so a slow write
+ * never lands after a newer one
+ */
+export class ConversationRecorder {
+  private conversation: Conversation | null = null;
+  private savedAudio = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+
+  start({ owner, chainId }: { owner?: Address; chainId?: number } = {}) {
+    const now = Date.now();
+    this.conversation = {
+      id: crypto.randomUUID(),
+      owner,
+      chainId,
+      startedAt: now,
+      updatedAt: now,
+      title: 'Untitled conversation',
+      items: [],
+    };
+    this.savedAudio.clear();
+  }
+
+  getConversationId() {
+    return this.conversation?.id ?? null;
+  }
+
+  /**
+   * The conversation as it stands, for exports, without saving it
+   */
+  snapshot(items: RealtimeItemLike[]): Conversation {
+    const now = Date.now();
+    const converted = items.map(toConversationItem);
+    return {
+      ...(this.conversation || { id: crypto.randomUUID(), startedAt: now }),
+      updatedAt: now,
+      title: titleFor(converted),
+      items: converted,
+    };
+  }
+
+  /**
+   * Records the client's items, plus the decoded audio of completed ones
+   */
+  update(items: RealtimeItemLike[]) {
+    if (!this.conversation) {
+      return;
+    }
+    const conversation = this.conversation;
+    conversation.items = items.map(toConversationItem);
+    conversation.title = titleFor(conversation.items);
+    conversation.updatedAt = Date.now();
+    const audio = items
+      .filter((item) => item.formatted.file?.blob && !this.savedAudio.has(item.id))
+      .map((item) => ({
+        conversationId: conversation.id,
+        itemId: item.id,
+        blob: item.formatted.file!.blob,
+      }));
+    audio.forEach(({ itemId }) => this.savedAudio.add(itemId));
+    this.write({ ...conversation }, audio);
+  }
+
+  finish() {
+    if (!this.conversation) {
+      return this.queue;
+    }
+    const conversation = { ...this.conversation, endedAt: Date.now() };
+    this.conversation = null;
+    if (conversation.items.length > 0) {
+      this.write(conversation, []);
+    }
+    return this.queue;
+  }
+
+  private write(conversation: Conversation, audio: ConversationAudio[]) {
+    this.queue = this.queue
+      .then(async () => {
+        await withStore(CONVERSATION_STORE, 'readwrite', (store) => store.put(conversation));
+        for (const entry of audio) {
+          await withStore(AUDIO_STORE, 'readwrite', (store) => store.put(entry));
+        }
+        emit();
+      })
+      .catch((error) => console.error('Error saving conversation:', error));
+  }
+}
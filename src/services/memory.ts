@@ -0,0 +1,130 @@
+import type { Address } from 'viem';
+import { MEMORY_STORE, withStore } from './db';
+
+/**
+ * Something the assistant saved about the user
+ */
+export interface MemoryEntry {
+  key: string;
+  value: string;
+  updatedAt: number;
+}
+
+interface StoredEntry extends MemoryEntry {
+  owner: string;
+}
+
+export const MEMORY_KEY_PATTERN = '^[a-z0-9_]+$';
+
+const listeners = new Set<() => void>();
+
+// without a wallet memory is kept for this page load only
+let guestMemory: MemoryEntry[] = [];
+// while a replay runs every entry lives here, see isolateMemory()
+let isolatedMemory: MemoryEntry[] | null = null;
+
+function ownerKey(owner: Address) {
+  return owner.toLowerCase();
+}
+
+function emit() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Entries kept in this page instead of IndexedDB, null when owner's are stored
+ */
+function inPageMemory(owner?: Address) {
+  return isolatedMemory || (owner ? null : guestMemory);
+}
+
+function setInPageMemory(entries: MemoryEntry[]) {
+  if (isolatedMemory) {
+    isolatedMemory = entries;
+  } else {
+    guestMemory = entries;
+  }
+}
+
+/**
+ * Starts an empty store kept in this page until the returned function is called,
+ * so a replay never reads or writes what the user saved
+ */
+export function isolateMemory() {
+  isolatedMemory = [];
+  emit();
+  return () => {
+    isolatedMemory = null;
+    emit();
+  };
+}
+
+export function subscribeMemory(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Every entry saved for owner, oldest first
+ */
+export async function loadMemory(owner?: Address): Promise<MemoryEntry[]> {
+  const entries = inPageMemory(owner);
+  if (entries) {
+    return entries;
+  }
+  const stored = await withStore<StoredEntry[]>(MEMORY_STORE, 'readonly', (store) =>
+    store.index('owner').getAll(ownerKey(owner!))
+  );
+  return stored
+    .map(({ key, value, updatedAt }) => ({ key, value, updatedAt }))
+    .sort((a, b) => a.updatedAt - b.updatedAt);
+}
+
+export async function getMemory(owner: Address | undefined, key: string) {
+  const entries = inPageMemory(owner);
+  if (entries) {
+    return entries.find((entry) => entry.key === key);
+  }
+  const stored = await withStore<StoredEntry | undefined>(MEMORY_STORE, 'readonly', (store) =>
+    store.get([ownerKey(owner!), key])
+  );
+  return stored && { key: stored.key, value: stored.value, updatedAt: stored.updatedAt };
+}
+
+export async function setMemory(
+  owner: Address | undefined,
+  key: string,
+  value: string
+): Promise<MemoryEntry> {
+  const entry: MemoryEntry = { key, value, updatedAt: Date.now() };
+  const entries = inPageMemory(owner);
+  if (entries) {
+    setInPageMemory(entries.filter((existing) => existing.key !== key).concat(entry));
+  } else {
+    await withStore(MEMORY_STORE, 'readwrite', (store) =>
+      store.put({ owner: ownerKey(owner!), ...entry })
+    );
+  }
+  emit();
+  return entry;
+}
+
+/**
+ * Removes key, resolving to the deleted entry or undefined when there was none
+ */
+export async function deleteMemory(owner: Address | undefined, key: string) {
+  const entry = await getMemory(owner, key);
+  if (!entry) {
+    return undefined;
+  }
+  const entries = inPageMemory(owner);
+  if (entries) {
+    setInPageMemory(entries.filter((existing) => existing.key !== key));
+  } else {
+    await withStore(MEMORY_STORE, 'readwrite', (store) => store.delete([ownerKey(owner!), key]));
+  }
+  emit();
+  return entry;
+}
@@ -0,0 +1,123 @@
+import {
+  getAddress as checksumAddress,
+  isAddress,
+  type Address,
+} from 'viem';
+import { normalize } from 'viem/ens';
+import { getAddress, getName } from '@coinbase/onchainkit/identity';
+import { getChainConfig } from '@/chains';
+
+export interface ResolvedName {
+  address: Address;
+  // ENS name or Basename, forward resolved or found by reverse lookup
+  name?: string;
+}
+
+export type NameResolutionErrorReason = 'invalid' | 'not_found';
+
+export class NameResolutionError extends Error {
+  reason: NameResolutionErrorReason;
+
+  constructor(reason: NameResolutionErrorReason, message: string) {
+    super(message);
+    this.name = 'NameResolutionError';
+    this.reason = reason;
+  }
+}
+
+const forwardCache = new Map<string, Address>();
+const reverseCache = new Map<string, string | null>();
+
+export function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function isName(input: string) {
+  return /^[^\s.]+(\.[^\s.]+)*\.eth$/i.test(input.trim());
+}
+
+/**
+ * Validates hex input, catching the typos voice transcription tends to make
+ * Mixed case input must carry a valid EIP-55 checksum
+ */
+function parseHexAddress(input: string): Address {
+  if (!/^0x[0-9a-f]*$/i.test(input)) {
+    throw new NameResolutionError('invalid', `${input} is not an address, ENS name or Basename`);
+  }
+  const length = input.length - 2;
+  if (length !== 40) {
+    throw new NameResolutionError(
+      'invalid',
+      `${input} has ${length} hex characters instead of 40, it is probably mistyped`
+    );
+  }
+  const hex = input.slice(2);
+  const isMixedCase = /[a-f]/.test(hex) && /[A-F]/.test(hex);
+  if (isMixedCase && !isAddress(input, { strict: true })) {
+    throw new NameResolutionError(
+      'invalid',
+      `${input} fails its checksum, it is probably mistyped`
+    );
+  }
+  return checksumAddress(input);
+}
+
+/**
+ * Forward resolves an ENS name or Basename (e.g. alice.eth, alice.base.eth)
+ */
+export async function resolveName(name: string): Promise<Address> {
+  let normalized: string;
+  try {
+    normalized = normalize(name.trim());
+  } catch {
+    throw new NameResolutionError('invalid', `${name} is not a valid name`);
+  }
+  const cached = forwardCache.get(normalized);
+  if (cached) {
+    return cached;
+  }
+  const address = await getAddress({ name: normalized });
+  if (!address) {
+    throw new NameResolutionError('not_found', `Unable to resolve ${name}`);
+  }
+  forwardCache.set(normalized, address);
+  return address;
+}
+
+/**
+ * Reverse resolves an address to its Basename or ENS name, best effort
+ */
+export async function lookupName(address: Address, chainId: number): Promise<string | undefined> {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  if (reverseCache.has(key)) {
+    return reverseCache.get(key) || undefined;
+  }
+  try {
+    const name = await getName({ address, chain: getChainConfig(chainId).chain });
+    reverseCache.set(key, name || null);
+    return name || undefined;
+  } catch (error) {
+    console.error('Error looking up name:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Turns whatever the user said into a checksummed address plus a name to show
+ */
+export async function resolveRecipient(input: string, chainId: number): Promise<ResolvedName> {
+  const value = input.trim();
+  if (isName(value)) {
+    const address = await resolveName(value);
+    return { address, name: value.toLowerCase() };
+  }
+  const address = parseHexAddress(value);
+  return { address, name: await lookupName(address, chainId) };
+}
+
+/**
+ * Name if the address has one, otherwise the shortened address
+ */
+export async function displayName(address: Address, chainId: number) {
+  return (await lookupName(address, chainId)) || shortenAddress(address);
+}
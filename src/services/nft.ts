@@ -0,0 +1,79 @@
+import {
+  parseAbi,
+  parseEventLogs,
+  zeroAddress,
+  type Address,
+  type TransactionReceipt,
+} from 'viem';
+import { readContract } from 'wagmi/actions';
+import type { Config } from 'wagmi';
+
+const ERC721_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+]);
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+export interface MintedNft {
+  contract: Address;
+  tokenId: string;
+  owner: Address;
+  chainId: number;
+  name?: string;
+  image?: string;
+  explorerUrl: string;
+}
+
+/**
+ * Token ids minted by contract to owner, read from the receipt's Transfer logs
+ */
+export function findMintedTokenIds(
+  receipt: TransactionReceipt,
+  contract: Address,
+  owner: Address
+): string[] {
+  return parseEventLogs({ abi: ERC721_ABI, eventName: 'Transfer', logs: receipt.logs })
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === contract.toLowerCase() &&
+        log.args.from === zeroAddress &&
+        log.args.to.toLowerCase() === owner.toLowerCase()
+    )
+    .map((log) => log.args.tokenId.toString());
+}
+
+function toHttpUrl(uri: string) {
+  return uri.startsWith('ipfs://') ? IPFS_GATEWAY + uri.slice('ipfs://'.length) : uri;
+}
+
+/**
+ * Name and image from the token's metadata, best effort since many
+ * test collections have no tokenURI or an unreachable one
+ */
+export async function fetchNftMetadata(
+  config: Config,
+  contract: Address,
+  tokenId: string,
+  chainId: number
+): Promise<{ name?: string; image?: string }> {
+  try {
+    const uri = await readContract(config, {
+      address: contract,
+      abi: ERC721_ABI,
+      functionName: 'tokenURI',
+      args: [BigInt(tokenId)],
+      chainId,
+    });
+    const metadata = uri.startsWith('data:application/json;base64,')
+      ? JSON.parse(atob(uri.slice('data:application/json;base64,'.length)))
+      : await (await fetch(toHttpUrl(uri))).json();
+    return {
+      name: typeof metadata.name === 'string' ? metadata.name : undefined,
+      image: typeof metadata.image === 'string' ? toHttpUrl(metadata.image) : undefined,
+    };
+  } catch (error) {
+    console.warn('Unable to read NFT metadata:', error);
+    return {};
+  }
+}
@@ -0,0 +1,279 @@
+import { formatUnits, getAddress, isAddress, parseUnits, type Address } from 'viem';
+import { TOKENS } from '@/tokens';
+import { AMOUNT_PATTERN } from '@/tools/amounts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amounts are compared at 18 decimals, enough for every token we support
+const COMPARE_DECIMALS = 18;
+
+// Limits are per symbol and shared across chains
+export const POLICY_TOKENS = Object.values(TOKENS)
+  .flat()
+  .reduce((symbols, token) =>
+    symbols.includes(token.symbol) ? symbols : symbols.concat(token.symbol), ['ETH']);
+
+export interface TokenLimits {
+  // decimal strings in token units, empty means no limit
+  perTransaction?: string;
+  daily?: string;
+}
+
+export interface SpendingPolicy {
+  limits: { [symbol: string]: TokenLimits };
+  recipients: {
+    mode: 'off' | 'allowlist' | 'blocklist';
+    addresses: Address[];
+  };
+  // minutes a recipient must wait after first being seen, 0 disables
+  newRecipientCooldownMinutes: number;
+}
+
+export interface Spend {
+  symbol: string;
+  amount: string;
+  recipient: Address;
+  timestamp: number;
+}
+
+/**
+ * Past spends within the rolling window plus when each recipient was first seen
+ */
+export interface SpendingLedger {
+  spends: Spend[];
+  recipients: { [address: string]: number };
+}
+
+export type PolicyRule =
+  | 'per_transaction_limit'
+  | 'daily_limit'
+  | 'recipient_not_allowed'
+  | 'recipient_blocked'
+  | 'new_recipient_cooldown';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+  details: { [key: string]: string | number };
+}
+
+export interface SpendRequest {
+  symbol: string;
+  amount: string;
+  recipient: Address;
+}
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+export const DEFAULT_POLICY: SpendingPolicy = {
+  limits: {},
+  recipients: { mode: 'off', addresses: [] },
+  newRecipientCooldownMinutes: 0,
+};
+
+function toUnits(amount: string) {
+  return parseUnits(amount, COMPARE_DECIMALS);
+}
+
+function fromUnits(units: bigint) {
+  return formatUnits(units, COMPARE_DECIMALS);
+}
+
+function sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Checks a spend against the policy, returns the first rule it breaks
+ * Pure so it can run against any ledger and clock
+ */
+export function evaluatePolicy(
+  policy: SpendingPolicy,
+  ledger: SpendingLedger,
+  { symbol, amount, recipient }: SpendRequest,
+  now = Date.now()
+): PolicyViolation | null {
+  const { mode, addresses } = policy.recipients;
+  const listed = addresses.some((address) => sameAddress(address, recipient));
+  if (mode === 'allowlist' && !listed) {
+    return {
+      rule: 'recipient_not_allowed',
+      message: `${recipient} is not on the allowlist of recipients`,
+      details: { recipient },
+    };
+  }
+  if (mode === 'blocklist' && listed) {
+    return {
+      rule: 'recipient_blocked',
+      message: `${recipient} is on the blocklist of recipients`,
+      details: { recipient },
+    };
+  }
+
+  const limits = policy.limits[symbol] || {};
+  const value = toUnits(amount);
+  if (limits.perTransaction && value > toUnits(limits.perTransaction)) {
+    return {
+      rule: 'per_transaction_limit',
+      message: `${amount} ${symbol} is over the per transaction limit of ${limits.perTransaction} ${symbol}`,
+      details: { symbol, amount, limit: limits.perTransaction },
+    };
+  }
+  if (limits.daily) {
+    const spent = ledger.spends
+      .filter((spend) => spend.symbol === symbol && now - spend.timestamp < DAY_MS)
+      .reduce((total, spend) => total + toUnits(spend.amount), BigInt(0));
+    const remaining = toUnits(limits.daily) - spent;
+    if (value > remaining) {
+      return {
+        rule: 'daily_limit',
+        message: `${amount} ${symbol} would exceed the daily limit of ${limits.daily} ${symbol}, ${fromUnits(remaining > BigInt(0) ? remaining : BigInt(0))} ${symbol} left in the last 24 hours`,
+        details: {
+          symbol,
+          amount,
+          limit: limits.daily,
+          spent: fromUnits(spent),
+        },
+      };
+    }
+  }
+
+  const cooldownMs = policy.newRecipientCooldownMinutes * 60 * 1000;
+  if (cooldownMs > 0 && !(mode === 'allowlist' && listed)) {
+    const firstSeen = ledger.recipients[recipient.toLowerCase()] ?? now;
+    const waitMs = firstSeen + cooldownMs - now;
+    if (waitMs > 0) {
+      const minutes = Math.ceil(waitMs / 60_000);
+      return {
+        rule: 'new_recipient_cooldown',
+        message: `${recipient} is a new recipient, transfers to it unlock in ${minutes} minutes`,
+        details: { recipient, minutes_remaining: minutes },
+      };
+    }
+  }
+
+  return null;
+}
+
+function policyKey(address: Address) {
+  return `policy::${address.toLowerCase()}`;
+}
+
+function ledgerKey(address: Address) {
+  return `policy-ledger::${address.toLowerCase()}`;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+}
+
+// a comma as the only separator is a decimal comma, unless it is followed by exactly
+// three digits: "1,000" could be a thousand or one, so it is rejected rather than guessed
+const DECIMAL_COMMA = /^\d+,(\d{1,2}|\d{4,})$/;
+
+/**
+ * "1,5" and " 1.5 " both mean 1.5, empty means no limit
+ * Anything else is left as typed for savePolicy to reject
+ */
+function normalizeLimit(limit?: string) {
+  const trimmed = limit?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  return DECIMAL_COMMA.test(trimmed) ? trimmed.replace(',', '.') : trimmed;
+}
+
+function normalizeLimits(limits: SpendingPolicy['limits']) {
+  const normalized: SpendingPolicy['limits'] = {};
+  Object.keys(limits).forEach((symbol) => {
+    normalized[symbol] = {
+      perTransaction: normalizeLimit(limits[symbol].perTransaction),
+      daily: normalizeLimit(limits[symbol].daily),
+    };
+  });
+  return normalized;
+}
+
+export function loadPolicy(address: Address): SpendingPolicy {
+  const policy = readJson(policyKey(address), DEFAULT_POLICY);
+  return { ...policy, limits: normalizeLimits(policy.limits) };
+}
+
+/**
+ * Stores the policy, throws a PolicyError when a limit is not a decimal amount
+ * since every later spend check would fail on it, or when a listed recipient
+ * is not an address since it would allow or block nothing
+ */
+export function savePolicy(address: Address, policy: SpendingPolicy) {
+  const limits = normalizeLimits(policy.limits);
+  const pattern = new RegExp(AMOUNT_PATTERN);
+  Object.keys(limits).forEach((symbol) => {
+    const { perTransaction, daily } = limits[symbol];
+    [perTransaction, daily].forEach((limit) => {
+      if (limit && !pattern.test(limit)) {
+        throw new PolicyError(
+          `${limit} is not a valid ${symbol} limit, use a number like 1.5 or 1000 without thousands separators`
+        );
+      }
+    });
+  });
+  const rejected = policy.recipients.addresses.filter((recipient) => !isAddress(recipient));
+  if (rejected.length) {
+    const verb = rejected.length === 1 ? 'is not an address' : 'are not addresses';
+    throw new PolicyError(`${rejected.join(', ')} ${verb}, list recipients by their 0x address`);
+  }
+  const addresses = policy.recipients.addresses.map((recipient) => getAddress(recipient));
+  localStorage.setItem(
+    policyKey(address),
+    JSON.stringify({ ...policy, limits, recipients: { ...policy.recipients, addresses } })
+  );
+}
+
+export function loadLedger(address: Address): SpendingLedger {
+  return readJson<SpendingLedger>(ledgerKey(address), { spends: [], recipients: {} });
+}
+
+function saveLedger(address: Address, ledger: SpendingLedger, now = Date.now()) {
+  const spends = ledger.spends.filter((spend) => now - spend.timestamp < DAY_MS);
+  localStorage.setItem(ledgerKey(address), JSON.stringify({ ...ledger, spends }));
+}
+
+/**
+ * Evaluates a spend for the wallet's stored policy
+ * Recipients are remembered the first time they are checked so the
+ * new recipient cooldown starts counting from the first attempt
+ */
+export function checkSpendingPolicy(
+  address: Address,
+  request: SpendRequest,
+  now = Date.now()
+): PolicyViolation | null {
+  const ledger = loadLedger(address);
+  const violation = evaluatePolicy(loadPolicy(address), ledger, request, now);
+  const key = request.recipient.toLowerCase();
+  if (ledger.recipients[key] === undefined) {
+    ledger.recipients[key] = now;
+    saveLedger(address, ledger, now);
+  }
+  return violation;
+}
+
+/**
+ * Adds a completed spend to the rolling window
+ */
+export function recordSpend(address: Address, request: SpendRequest, now = Date.now()) {
+  const ledger = loadLedger(address);
+  ledger.spends.push({ ...request, timestamp: now });
+  saveLedger(address, ledger, now);
+}
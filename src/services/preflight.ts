@@ -0,0 +1,132 @@
+import {
+  BaseError,
+  ExecutionRevertedError,
+  InsufficientFundsError,
+  RawContractError,
+  decodeErrorResult,
+  formatEther,
+  parseAbi,
+  type Address,
+  type Hex,
+} from 'viem';
+import { call, estimateFeesPerGas, estimateGas, getBalance } from 'wagmi/actions';
+import type { Config } from 'wagmi';
+
+export interface PreflightParameters {
+  account: Address;
+  to: Address;
+  value?: bigint;
+  data?: Hex;
+  chainId: number;
+  // token the call moves, used to word revert reasons
+  symbol?: string;
+}
+
+export interface PreflightResult {
+  // false when the simulation reverted
+  willSucceed: boolean;
+  // human readable, e.g. "insufficient USDC"
+  failureReason?: string;
+  gas?: string;
+  // network fee in ETH, undefined when the node could not estimate it
+  estimatedFee?: string;
+  warning?: string;
+}
+
+// Revert reasons worth explaining: plain strings and OpenZeppelin 5 token errors
+const TOKEN_ERRORS_ABI = parseAbi([
+  'error Error(string reason)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+]);
+
+function revertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const cause = error.walk((e) => {
+    const data = (e as { data?: unknown }).data;
+    return typeof data === 'string' && data.startsWith('0x');
+  }) as { data?: Hex } | null;
+  return cause?.data;
+}
+
+function isRevert(error: unknown) {
+  return (
+    error instanceof BaseError &&
+    !!error.walk(
+      (e) =>
+        e instanceof ExecutionRevertedError ||
+        e instanceof RawContractError ||
+        e instanceof InsufficientFundsError
+    )
+  );
+}
+
+/**
+ * Turns a failed simulation into something worth saying to the user
+ */
+export function describeRevert(error: unknown, symbol = 'tokens'): string {
+  const data = revertData(error);
+  let reason: string | undefined;
+  if (data && data !== '0x') {
+    try {
+      const decoded = decodeErrorResult({ abi: TOKEN_ERRORS_ABI, data });
+      if (decoded.errorName === 'ERC20InsufficientBalance') return `insufficient ${symbol}`;
+      if (decoded.errorName === 'ERC20InsufficientAllowance') {
+        return `${symbol} spending is not approved`;
+      }
+      reason = decoded.args[0];
+    } catch {
+      // unknown custom error, fall back to the node's message
+    }
+  }
+  reason = reason || (error instanceof BaseError ? error.details || error.shortMessage : undefined);
+  if (!reason) {
+    return error instanceof Error ? error.message : 'the transaction would revert';
+  }
+  if (/exceeds balance|insufficient balance/i.test(reason)) return `insufficient ${symbol}`;
+  if (/exceeds allowance|insufficient allowance/i.test(reason)) {
+    return `${symbol} spending is not approved`;
+  }
+  if (/insufficient funds/i.test(reason)) return 'not enough ETH to pay for the transaction';
+  return reason.replace(/^execution reverted:?\s*/i, '') || 'the transaction would revert';
+}
+
+/**
+ * Simulates a transaction on its chain and estimates what it will cost,
+ * so a doomed transaction is caught before the wallet asks for a signature
+ */
+export async function preflightTransaction(
+  config: Config,
+  { account, to, value, data, chainId, symbol }: PreflightParameters
+): Promise<PreflightResult> {
+  try {
+    await call(config, { account, to, value, data, chainId });
+  } catch (error) {
+    if (!isRevert(error)) {
+      // the node could not run it, which says nothing about the transaction
+      console.error('Error simulating transaction:', error);
+      return { willSucceed: true, warning: 'the transaction could not be simulated' };
+    }
+    return { willSucceed: false, failureReason: describeRevert(error, symbol) };
+  }
+
+  try {
+    const [gas, fees, balance] = await Promise.all([
+      estimateGas(config, { account, to, value, data, chainId }),
+      estimateFeesPerGas(config, { chainId }),
+      getBalance(config, { address: account, chainId }),
+    ]);
+    const fee = gas * (fees.maxFeePerGas ?? fees.gasPrice ?? BigInt(0));
+    const estimatedFee = formatEther(fee);
+    // smart wallets may have fees sponsored, so a short fee only warns
+    const warning =
+      balance.value < (value ?? BigInt(0)) + fee
+        ? 'the wallet may not have enough ETH left to pay the network fee'
+        : undefined;
+    return { willSucceed: true, gas: gas.toString(), estimatedFee, warning };
+  } catch (error) {
+    // the simulation passed, a failed estimate should not block the user
+    console.error('Error estimating transaction fee:', error);
+    return { willSucceed: true };
+  }
+}
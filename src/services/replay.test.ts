@@ -0,0 +1,74 @@
+import { RealtimeClient } from '@openai/realtime-api-beta';
+import { base } from 'viem/chains';
+import { describe, expect, it } from 'vitest';
+import { createConfig, http } from 'wagmi';
+import { ConfirmationManager, mountTools, tools, type ToolContext } from '@/tools';
+import { createStaticActivitySource } from './activity';
+import { CallMonitor, createMockCallBackend } from './calls';
+import { parseFixture, ReplaySession } from './replay';
+import { createMockSwapProvider } from './swap';
+import recording from './__fixtures__/remember-token.json';
+
+// Recorded against `npm run mock -- relay-server/scripts/remember-token.json`:
+// set_memory runs for real, get_account_balance answers from the recording
+const fixture = parseFixture(JSON.stringify(recording));
+
+const ignore = () => undefined;
+
+/**
+ * Everything a tool may read, replayed tools never reach the wallet
+ * so the wallet actions fail if anything calls them
+ */
+function createContext(replay: ReplaySession): ToolContext {
+  return {
+    config: createConfig({ chains: [base], transports: { [base.id]: http() } }),
+    confirmations: new ConfirmationManager(),
+    chainId: base.id,
+    address: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    session: { status: 'unauthenticated' },
+    activitySource: createStaticActivitySource([]),
+    swapProvider: createMockSwapProvider(),
+    calls: new CallMonitor(createMockCallBackend()),
+    signIn: async () => ({ status: 'error', message: 'No wallet in a replay' }),
+    signOut: async () => undefined,
+    switchChainAsync: async () => {
+      throw new Error('No wallet in a replay');
+    },
+    setCoords: ignore,
+    setMarker: ignore,
+    setShowBalance: ignore,
+    setActivity: ignore,
+    setMintedNft: ignore,
+    setSignature: ignore,
+    replay,
+  };
+}
+
+function replayThroughRegistry(replayed = fixture) {
+  const client = new RealtimeClient();
+  const replay = new ReplaySession(client, replayed, { toolTimeoutMs: 2000 });
+  const context = createContext(replay);
+  mountTools(client, tools, () => context);
+  return replay;
+}
+
+describe('ReplaySession', () => {
+  it('replays a recorded session to the same state', async () => {
+    const replay = replayThroughRegistry();
+    await replay.run();
+    expect(replay.compare()).toEqual([]);
+    expect(replay.sent.filter((event) => event.type === 'response.create')).toHaveLength(2);
+  });
+
+  it('lists what differs from the recording', async () => {
+    const replay = replayThroughRegistry({
+      ...fixture,
+      expected: { ...fixture.expected!, lastAssistantMessage: 'Something else' },
+    });
+    await replay.run();
+    expect(replay.compare()).toEqual([
+      'last assistant message: expected "Something else", ' +
+        'got "Listo, recordaré que tu token favorito es USDC. Tienes 0.5 ETH."',
+    ]);
+  });
+});
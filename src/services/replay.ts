@@ -0,0 +1,311 @@
+import type { ToolReplay, ToolResult } from '@/tools';
+import { isolateContacts } from './contacts';
+import { trimAudio, type RealtimeEvent, type RealtimeEventPayload } from './events';
+import { toConversationItem, type ConversationItem, type RealtimeItemLike } from './history';
+import { isolateMemory } from './memory';
+
+/**
+ * The Console state a replay is checked against
+ */
+export interface ReplaySnapshot {
+  items: ConversationItem[];
+  lastAssistantMessage: string | null;
+  lastUserMessage: string | null;
+  // function_call_output the client sent, by call_id
+  toolOutputs: { [callId: string]: string };
+}
+
+/**
+ * A recorded session, the raw events plus the state they led to
+ */
+export interface ReplayFixture {
+  version: 1;
+  recordedAt: string;
+  events: RealtimeEvent[];
+  expected?: ReplaySnapshot;
+}
+
+/**
+ * The parts of RealtimeClient a replay drives
+ */
+export interface ReplayClient {
+  realtime: {
+    ws: unknown;
+    receive(eventName: string, event: RealtimeEventPayload): boolean;
+  };
+  conversation: { getItems(): RealtimeItemLike[] };
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+const TRIMMED_PATTERN = /^\[trimmed: (\d+) bytes\]$/;
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g;
+
+/**
+ * Base64 PCM16 silence as long as a trimmed payload was, give or take the
+ * two bytes of padding the trimmed length cannot tell apart
+ */
+function silence(base64Length: number) {
+  let bytes = (base64Length / 4) * 3;
+  bytes -= bytes % 2;
+  const tail = bytes % 3 === 1 ? 'AA==' : bytes % 3 === 2 ? 'AAA=' : '';
+  return 'AAAA'.repeat(Math.floor(bytes / 3)) + tail;
+}
+
+/**
+ * Undoes trimAudio() with silence so audio items keep their length
+ */
+export function restoreAudio(event: RealtimeEventPayload): RealtimeEventPayload {
+  const key =
+    event.type === 'response.audio.delta'
+      ? 'delta'
+      : event.type === 'input_audio_buffer.append'
+        ? 'audio'
+        : null;
+  const match = key && typeof event[key] === 'string' && TRIMMED_PATTERN.exec(event[key] as string);
+  return key && match ? { ...event, [key]: silence(Number(match[1])) } : event;
+}
+
+function isToolOutput(event: RealtimeEventPayload) {
+  const item = event.item as { type?: string; call_id?: string; output?: string } | undefined;
+  return event.type === 'conversation.item.create' && item?.type === 'function_call_output'
+    ? item
+    : null;
+}
+
+/**
+ * Tool outputs the client sent in a recording, by call_id
+ */
+export function recordedToolOutputs(events: RealtimeEvent[]) {
+  const outputs: { [callId: string]: string } = {};
+  for (const { source, event } of events) {
+    const item = source === 'client' ? isToolOutput(event) : null;
+    if (item?.call_id) {
+      outputs[item.call_id] = item.output || '';
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Text of the newest message from role, the same the Console shows, null when there is none
+ */
+export function lastMessage(items: RealtimeItemLike[], role: 'user' | 'assistant') {
+  const messages = items.filter((item) => item.role === role);
+  const last = messages[messages.length - 1];
+  return last ? last.formatted.transcript || last.formatted.text || '' : null;
+}
+
+export function snapshotConversation(
+  items: RealtimeItemLike[],
+  toolOutputs: { [callId: string]: string }
+): ReplaySnapshot {
+  return {
+    items: items.map(toConversationItem),
+    lastAssistantMessage: lastMessage(items, 'assistant'),
+    lastUserMessage: lastMessage(items, 'user'),
+    toolOutputs,
+  };
+}
+
+/**
+ * A fixture of the session so far, audio trimmed unless includeAudio
+ */
+export function createFixture(
+  events: RealtimeEvent[],
+  items: RealtimeItemLike[],
+  { includeAudio = false } = {}
+): ReplayFixture {
+  return {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    events: events.map(({ time, source, event }) => ({
+      time,
+      source,
+      event: includeAudio ? event : trimAudio(event),
+    })),
+    expected: snapshotConversation(items, recordedToolOutputs(events)),
+  };
+}
+
+/**
+ * Reads a fixture, or a JSONL export from the event inspector which has no expected state
+ */
+export function parseFixture(text: string): ReplayFixture {
+  let events: RealtimeEvent[];
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.version === 1 && Array.isArray(parsed.events)) {
+      return parsed as ReplayFixture;
+    }
+    events = [parsed];
+  } catch {
+    try {
+      events = text
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+    } catch {
+      throw new ReplayError('The file is neither a fixture nor a JSONL event export');
+    }
+  }
+  if (!events.length || events.some((entry) => !entry?.event?.type || !entry.source)) {
+    throw new ReplayError('The file has no realtime events');
+  }
+  return { version: 1, recordedAt: events[0].time, events };
+}
+
+/**
+ * Differences between two snapshots, timestamps in tool outputs are ignored
+ */
+export function diffSnapshots(expected: ReplaySnapshot, actual: ReplaySnapshot) {
+  const differences: string[] = [];
+  const compare = (label: string, a: unknown, b: unknown) => {
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      differences.push(`${label}: expected ${JSON.stringify(a)}, got ${JSON.stringify(b)}`);
+    }
+  };
+  compare('last assistant message', expected.lastAssistantMessage, actual.lastAssistantMessage);
+  compare('last user message', expected.lastUserMessage, actual.lastUserMessage);
+  if (expected.items.length !== actual.items.length) {
+    differences.push(`expected ${expected.items.length} items, got ${actual.items.length}`);
+  }
+  expected.items.forEach((item, index) => {
+    compare(`item ${index + 1} (${item.id})`, item, actual.items[index]);
+  });
+  const callIds = Object.keys({ ...expected.toolOutputs, ...actual.toolOutputs });
+  for (const callId of callIds) {
+    const normalize = (output?: string) => output?.replace(TIMESTAMP_PATTERN, '<timestamp>');
+    compare(
+      `tool output ${callId}`,
+      normalize(expected.toolOutputs[callId]),
+      normalize(actual.toolOutputs[callId])
+    );
+  }
+  return differences;
+}
+
+/**
+ * Plays a fixture's server events through a RealtimeClient as if they came from the API
+ * What the client sends goes nowhere, tool outputs are kept to compare
+ * Tools that reach the wallet, the chain or other services get their recorded result
+ * through recordedResult(), the ToolContext.replay hook, so a replay never moves funds
+ * Memory and contacts tools run for real against empty stores kept in the page
+ */
+export class ReplaySession implements ToolReplay {
+  fixture: ReplayFixture;
+  toolTimeoutMs: number;
+  // everything the client sent during the replay
+  sent: RealtimeEventPayload[] = [];
+  private client: ReplayClient;
+  private recordedOutputs: { [callId: string]: string };
+  private outputs: { [callId: string]: string } = {};
+  private results: { [toolName: string]: ToolResult[] } = {};
+  private waiting: { callId: string; resolve: () => void } | null = null;
+  private problems: string[] = [];
+
+  constructor(
+    client: ReplayClient,
+    fixture: ReplayFixture,
+    { toolTimeoutMs = 30_000 }: { toolTimeoutMs?: number } = {}
+  ) {
+    this.client = client;
+    this.fixture = fixture;
+    this.toolTimeoutMs = toolTimeoutMs;
+    this.recordedOutputs = recordedToolOutputs(fixture.events);
+  }
+
+  recordedResult(toolName: string) {
+    return this.results[toolName]?.shift();
+  }
+
+  /**
+   * Feeds every server event in order, waiting for each tool call the
+   * recording answered so its effects land at the same point
+   */
+  async run() {
+    this.client.realtime.ws = {
+      send: (data: string) => this.capture(JSON.parse(data)),
+      close: () => {},
+    };
+    const restoreMemory = isolateMemory();
+    const restoreContacts = isolateContacts();
+    try {
+      for (const { source, event } of this.fixture.events) {
+        if (source === 'server') {
+          this.queueResult(event);
+          this.client.realtime.receive(event.type, restoreAudio(event));
+        } else {
+          const item = isToolOutput(event);
+          if (item?.call_id) {
+            await this.waitForOutput(item.call_id);
+          }
+        }
+        // let React and the handlers catch up before the next event
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    } finally {
+      restoreMemory();
+      restoreContacts();
+    }
+  }
+
+  /**
+   * Differences from the recording, against its expected state when it has one
+   */
+  compare() {
+    const actual = snapshotConversation(this.client.conversation.getItems(), this.outputs);
+    const expected = this.fixture.expected || { ...actual, toolOutputs: this.recordedOutputs };
+    return this.problems.concat(diffSnapshots(expected, actual));
+  }
+
+  private queueResult(event: RealtimeEventPayload) {
+    const item = event.item as { type?: string; name?: string; call_id?: string } | undefined;
+    if (event.type !== 'response.output_item.done' || item?.type !== 'function_call') {
+      return;
+    }
+    const output = item.call_id && this.recordedOutputs[item.call_id];
+    if (!output || !item.name) {
+      return;
+    }
+    try {
+      this.results[item.name] = (this.results[item.name] || []).concat(JSON.parse(output));
+    } catch {
+      this.problems.push(`recorded output of ${item.name} (${item.call_id}) is not JSON`);
+    }
+  }
+
+  private capture(event: RealtimeEventPayload) {
+    this.sent.push(event);
+    const item = isToolOutput(event);
+    if (item?.call_id) {
+      this.outputs[item.call_id] = item.output || '';
+      if (this.waiting?.callId === item.call_id) {
+        this.waiting.resolve();
+      }
+    }
+  }
+
+  private async waitForOutput(callId: string) {
+    if (this.outputs[callId] !== undefined) {
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const answered = await new Promise<boolean>((resolve) => {
+      this.waiting = { callId, resolve: () => resolve(true) };
+      timer = setTimeout(() => resolve(false), this.toolTimeoutMs);
+    });
+    clearTimeout(timer);
+    this.waiting = null;
+    if (!answered) {
+      this.problems.push(
+        `tool call ${callId} was not answered within ${this.toolTimeoutMs / 1000} seconds`
+      );
+    }
+  }
+}
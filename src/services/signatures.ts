@@ -0,0 +1,264 @@
+import {
+  getAddress,
+  isAddress,
+  isErc6492Signature,
+  type Address,
+  type Hex,
+  type TypedDataDefinition,
+} from 'viem';
+import { getBytecode, verifyMessage, verifyTypedData } from 'wagmi/actions';
+import type { Config } from 'wagmi';
+import { CHAINS } from '@/chains';
+
+export class SignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+/**
+ * What gets signed: plain text (personal_sign) or EIP-712 typed data
+ */
+export type SignaturePayload =
+  | { method: 'personal_sign'; message: string }
+  | { method: 'typed_data'; typedData: TypedDataDefinition };
+
+/**
+ * Human readable view of a payload, the same one is read aloud and shown
+ */
+export interface PayloadPreview {
+  method: SignaturePayload['method'];
+  message?: string;
+  primaryType?: string;
+  domain?: string;
+  fields?: { name: string; value: string }[];
+}
+
+/**
+ * The last signature made or checked, kept for the Console to show
+ */
+export interface SignatureRecord {
+  action: 'signed' | 'verified';
+  preview: PayloadPreview;
+  signer: Address;
+  signerName?: string;
+  signature: Hex;
+  // only for verifications
+  valid?: boolean;
+  walletKind?: WalletKind;
+}
+
+/**
+ * Token allowance granted by signing, whoever holds the signature can move
+ * the tokens without any further transaction from the signer
+ */
+export interface AllowanceGrant {
+  token: Address;
+  spender: Address;
+  amount: bigint;
+}
+
+/**
+ * An allowance in a token the app knows, as confirmed by the user
+ */
+export interface TokenAllowance {
+  spender: Address;
+  symbol: string;
+  // decimal string in token units
+  amount: string;
+  unlimited: boolean;
+}
+
+export type WalletKind = 'eoa' | 'smart_wallet' | 'undeployed_smart_wallet';
+
+export interface VerificationResult {
+  valid: boolean;
+  walletKind: WalletKind;
+}
+
+/**
+ * Parses the JSON typed data the assistant passes along
+ * Expects { domain, types, primaryType, message } like eth_signTypedData_v4
+ */
+export function parseTypedData(json: string): TypedDataDefinition {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SignatureError('typed_data is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new SignatureError('typed_data must be an object');
+  }
+  const { domain = {}, types, primaryType, message } = data;
+  if (!types || typeof types !== 'object' || !types[primaryType]) {
+    throw new SignatureError('typed_data.types must define typed_data.primaryType');
+  }
+  if (!message || typeof message !== 'object') {
+    throw new SignatureError('typed_data.message must be an object');
+  }
+  // viem derives the domain type itself
+  const structs = { ...types };
+  delete structs.EIP712Domain;
+  return { domain, types: structs, primaryType, message } as TypedDataDefinition;
+}
+
+// Permit2 lives at the same address on every chain
+const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+// Permit2 amounts are uint160, its maximum already means no limit
+export const UNLIMITED_ALLOWANCE = BigInt(`0x${'f'.repeat(40)}`);
+const MAX_UINT256 = BigInt(`0x${'f'.repeat(64)}`);
+
+function toBigInt(value: unknown) {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+    return undefined;
+  }
+  try {
+    return BigInt(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function toAddress(value: unknown) {
+  return typeof value === 'string' && isAddress(value) ? getAddress(value) : undefined;
+}
+
+/**
+ * True for typed data that may grant a token allowance: EIP-2612 and DAI
+ * permits, anything Permit2 verifies and any message naming a spender
+ */
+function mayGrantAllowance({ domain = {}, primaryType, message }: TypedDataDefinition) {
+  const fields = message as { [key: string]: unknown };
+  const verifier = domain.verifyingContract?.toLowerCase();
+  return (
+    /permit/i.test(primaryType as string) ||
+    domain.name === 'Permit2' ||
+    verifier === PERMIT2_ADDRESS.toLowerCase() ||
+    fields.spender !== undefined
+  );
+}
+
+/**
+ * Lists the token allowances a typed data payload grants, none for other payloads
+ * Reads EIP-2612 and DAI permits (the token is the verifying contract) and
+ * Permit2 PermitSingle, PermitBatch and the PermitTransferFrom family
+ * Throws a SignatureError for a payload that looks like a grant but cannot be read,
+ * signing what nobody can check is not an option
+ */
+export function findAllowances(typedData: TypedDataDefinition): AllowanceGrant[] {
+  if (!mayGrantAllowance(typedData)) {
+    return [];
+  }
+  const { domain = {}, primaryType } = typedData;
+  const message = typedData.message as { [key: string]: unknown };
+  const spender = toAddress(message.spender);
+  const nested = message.details ?? message.permitted;
+  const entries = (
+    nested === undefined
+      ? [
+          {
+            token: domain.verifyingContract,
+            amount: message.allowed === true ? MAX_UINT256 : message.value,
+          },
+        ]
+      : Array.isArray(nested)
+        ? nested
+        : [nested]
+  ) as { token?: unknown; amount?: unknown }[];
+
+  return entries.map((entry) => {
+    const token = toAddress(entry?.token);
+    const amount = toBigInt(entry?.amount);
+    if (!spender || !token || amount === undefined) {
+      throw new SignatureError(
+        `This ${String(primaryType)} message can grant a token allowance but its token, spender or amount cannot be read, it is not signed`
+      );
+    }
+    return { token, spender, amount };
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  return String(value);
+}
+
+/**
+ * Flattens nested structs into dotted field names, e.g. from.wallet
+ */
+function flattenFields(
+  types: { [type: string]: readonly { name: string; type: string }[] },
+  type: string,
+  value: { [key: string]: unknown },
+  prefix = ''
+): { name: string; value: string }[] {
+  return (types[type] || []).reduce<{ name: string; value: string }[]>((fields, field) => {
+    const name = prefix + field.name;
+    const fieldValue = value?.[field.name];
+    if (types[field.type] && fieldValue && typeof fieldValue === 'object') {
+      return fields.concat(
+        flattenFields(types, field.type, fieldValue as { [key: string]: unknown }, `${name}.`)
+      );
+    }
+    return fields.concat({ name, value: formatValue(fieldValue) });
+  }, []);
+}
+
+export function previewPayload(payload: SignaturePayload): PayloadPreview {
+  if (payload.method === 'personal_sign') {
+    return { method: payload.method, message: payload.message };
+  }
+  const { domain = {}, types, primaryType, message } = payload.typedData;
+  const chainId = domain.chainId === undefined ? undefined : Number(domain.chainId);
+  const parts = [
+    domain.name,
+    domain.version && `version ${domain.version}`,
+    chainId !== undefined && `on ${CHAINS[chainId]?.chain.name || `chain ${chainId}`}`,
+    domain.verifyingContract && `contract ${domain.verifyingContract}`,
+  ].filter(Boolean);
+  return {
+    method: payload.method,
+    primaryType: primaryType as string,
+    domain: parts.length ? parts.join(', ') : undefined,
+    fields: flattenFields(
+      types as { [type: string]: readonly { name: string; type: string }[] },
+      primaryType as string,
+      message as { [key: string]: unknown }
+    ),
+  };
+}
+
+/**
+ * Checks a signature the way a verifier contract would: ecrecover for EOAs,
+ * ERC-1271 for deployed smart wallets and ERC-6492 for counterfactual ones
+ */
+export async function verifySignature(
+  config: Config,
+  {
+    address,
+    payload,
+    signature,
+    chainId,
+  }: { address: Address; payload: SignaturePayload; signature: Hex; chainId: number }
+): Promise<VerificationResult> {
+  if (!isAddress(address)) {
+    throw new SignatureError(`${address} is not an address`);
+  }
+  const [valid, bytecode] = await Promise.all([
+    payload.method === 'personal_sign'
+      ? verifyMessage(config, { address, message: payload.message, signature, chainId })
+      : verifyTypedData(config, { address, ...payload.typedData, signature, chainId }),
+    getBytecode(config, { address, chainId }),
+  ]);
+  let walletKind: WalletKind = 'eoa';
+  if (bytecode && bytecode !== '0x') {
+    walletKind = 'smart_wallet';
+  } else if (isErc6492Signature(signature)) {
+    walletKind = 'undeployed_smart_wallet';
+  }
+  return { valid, walletKind };
+}
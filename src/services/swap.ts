@@ -0,0 +1,141 @@
+import { formatUnits, parseUnits, type Address, type Hash } from 'viem';
+import { SWAP_SPENDER_ADDRESS } from '@/constants';
+
+// ARS amounts and rates are quoted in centavos
+const ARS_DECIMALS = 2;
+const USDC_DECIMALS = 6;
+
+export interface SwapQuote {
+  id: string;
+  provider: string;
+  // USDC in, decimal string
+  amountIn: string;
+  // ARS out, decimal string
+  amountOut: string;
+  // ARS per USDC
+  rate: string;
+  // address the USDC allowance is granted to before settling
+  spender: Address;
+  chainId: number;
+  // milliseconds since epoch
+  expiresAt: number;
+}
+
+export interface SwapSettlement {
+  quoteId: string;
+  amountIn: string;
+  amountOut: string;
+  rate: string;
+  // provider reference the user can quote to support
+  reference: string;
+  settledAt: number;
+}
+
+export interface QuoteRequest {
+  amountIn: string;
+  owner: Address;
+  chainId: number;
+}
+
+export interface SettleRequest {
+  quote: SwapQuote;
+  owner: Address;
+  // the approve transaction that granted the allowance
+  approvalHash: Hash;
+}
+
+export class SwapError extends Error {
+  reason: 'expired' | 'rejected' | 'unavailable';
+
+  constructor(reason: SwapError['reason'], message: string) {
+    super(message);
+    this.name = 'SwapError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Prices USDC in ARS and settles accepted quotes
+ * Swap it out for a desk or exchange integration
+ */
+export interface SwapQuoteProvider {
+  name: string;
+  getQuote(request: QuoteRequest): Promise<SwapQuote>;
+  settle(request: SettleRequest): Promise<SwapSettlement>;
+}
+
+const quotes = new Map<string, SwapQuote>();
+
+export function rememberQuote(quote: SwapQuote) {
+  quotes.set(quote.id, quote);
+}
+
+export function findQuote(id: string): SwapQuote | undefined {
+  return quotes.get(id);
+}
+
+export function isQuoteExpired(quote: SwapQuote, now = Date.now()) {
+  return now >= quote.expiresAt;
+}
+
+/**
+ * ARS received for amountIn USDC at rate, rounded down to the centavo
+ */
+export function convertUsdcToArs(amountIn: string, rate: string) {
+  const out =
+    (parseUnits(amountIn, USDC_DECIMALS) * parseUnits(rate, ARS_DECIMALS)) /
+    parseUnits('1', USDC_DECIMALS);
+  return formatUnits(out, ARS_DECIMALS);
+}
+
+export interface MockSwapProviderOptions {
+  // ARS per USDC before jitter
+  rate?: number;
+  // quotes move up to this fraction either way, 0.005 is half a percent
+  jitter?: number;
+  ttlMs?: number;
+  settleDelayMs?: number;
+  spender?: Address;
+}
+
+/**
+ * In-browser provider for development, no desk or backend involved
+ */
+export function createMockSwapProvider({
+  rate = 1150,
+  jitter = 0.005,
+  ttlMs = 2 * 60 * 1000,
+  settleDelayMs = 1500,
+  spender = SWAP_SPENDER_ADDRESS,
+}: MockSwapProviderOptions = {}): SwapQuoteProvider {
+  return {
+    name: 'mock',
+    async getQuote({ amountIn, chainId }) {
+      const quoted = (rate * (1 + (Math.random() * 2 - 1) * jitter)).toFixed(ARS_DECIMALS);
+      return {
+        id: `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        provider: 'mock',
+        amountIn,
+        amountOut: convertUsdcToArs(amountIn, quoted),
+        rate: quoted,
+        spender,
+        chainId,
+        expiresAt: Date.now() + ttlMs,
+      };
+    },
+    async settle({ quote }) {
+      if (isQuoteExpired(quote)) {
+        throw new SwapError('expired', 'The quote expired before it could be settled');
+      }
+      await new Promise((resolve) => setTimeout(resolve, settleDelayMs));
+      return {
+        quoteId: quote.id,
+        amountIn: quote.amountIn,
+        amountOut: quote.amountOut,
+        rate: quote.rate,
+        reference: `MOCK-${quote.id.slice(-6).toUpperCase()}`,
+        settledAt: Date.now(),
+      };
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import type { Address } from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+
+export interface Token {
+  symbol: string;
+  name: string;
+  address: Address;
+  decimals: number;
+  // lowercase words users may say instead of the symbol
+  aliases: string[];
+}
+
+/**
+ * ERC-20 tokens the assistant can read and transfer, keyed by chain id
+ */
+export const TOKENS: { [chainId: number]: Token[] } = {
+  [baseSepolia.id]: [
+    {
+      symbol: 'USDC',
+      name: 'USD Coin',
+      address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      decimals: 6,
+      aliases: ['usd coin', 'dollar', 'dollars', 'dolar', 'dolares', 'dólares'],
+    },
+    {
+      symbol: 'EURC',
+      name: 'Euro Coin',
+      address: '0x808456652fdb597867f38412077A9182bf77359F',
+      decimals: 6,
+      aliases: ['euro coin', 'euro', 'euros'],
+    },
+    {
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      address: '0x4200000000000000000000000000000000000006',
+      decimals: 18,
+      aliases: ['wrapped ether', 'wrapped eth'],
+    },
+  ],
+  [base.id]: [
+    {
+      symbol: 'USDC',
+      name: 'USD Coin',
+      address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      decimals: 6,
+      aliases: ['usd coin', 'dollar', 'dollars', 'dolar', 'dolares', 'dólares'],
+    },
+    {
+      symbol: 'EURC',
+      name: 'Euro Coin',
+      address: '0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42',
+      decimals: 6,
+      aliases: ['euro coin', 'euro', 'euros'],
+    },
+    {
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      address: '0x4200000000000000000000000000000000000006',
+      decimals: 18,
+      aliases: ['wrapped ether', 'wrapped eth'],
+    },
+  ],
+};
+
+export function listTokens(chainId: number): Token[] {
+  return TOKENS[chainId] || [];
+}
+
+/**
+ * Finds a token by symbol, name, alias or contract address
+ */
+export function findToken(chainId: number, query: string): Token | undefined {
+  const needle = query.trim().toLowerCase();
+  return listTokens(chainId).find(
+    (token) =>
+      token.symbol.toLowerCase() === needle ||
+      token.name.toLowerCase() === needle ||
+      token.address.toLowerCase() === needle ||
+      token.aliases.includes(needle)
+  );
+}
+
+/**
+ * Same as findToken for tokens the app itself depends on, throws when missing
+ */
+export function getToken(chainId: number, symbol: string): Token {
+  const token = findToken(chainId, symbol);
+  if (!token) {
+    throw new Error(`Token ${symbol} is not configured for chain ${chainId}`);
+  }
+  return token;
+}
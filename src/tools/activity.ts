@@ -0,0 +1,119 @@
+import type { ActivityItem } from '@/services/activity';
+import { findContactByAddress } from '@/services/contacts';
+import { lookupName } from '@/services/names';
+import { findToken } from '@/tokens';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One line per transfer, worded so the assistant can read it out
+ */
+function describeItem(item: ActivityItem, now: number) {
+  const who = item.counterpartyName || 'an unnamed address';
+  const days = Math.floor((now - item.timestamp) / DAY_MS);
+  const when = days === 0 ? 'today' : days === 1 ? 'yesterday' : `${days} days ago`;
+  return item.direction === 'sent'
+    ? `Sent ${item.amount} ${item.symbol} to ${who} ${when}`
+    : `Received ${item.amount} ${item.symbol} from ${who} ${when}`;
+}
+
+export const getRecentActivity = defineTool<{
+  days?: number;
+  direction?: 'sent' | 'received' | 'all';
+  token?: string;
+  limit?: number;
+}>({
+  definition: {
+    name: 'get_recent_activity',
+    description:
+      'Lists recent ETH and token transfers of the connected wallet, e.g. "what did I send yesterday?".',
+    parameters: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'integer',
+          description: 'How many days back to look, defaults to 1 (today and yesterday use 2)',
+          minimum: 1,
+          maximum: 7,
+        },
+        direction: {
+          type: 'string',
+          description: 'Only sent or only received transfers, defaults to all',
+          enum: ['sent', 'received', 'all'],
+        },
+        token: {
+          type: 'string',
+          description: 'Only transfers of this token, e.g. ETH, USDC or "dollars"',
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of transfers, defaults to 10',
+          minimum: 1,
+          maximum: 25,
+        },
+      },
+      required: [],
+    },
+  },
+  metadata: { category: 'explorer', movesFunds: false, requiresWallet: true },
+  handler: async (
+    { days = 1, direction = 'all', token, limit = 10 },
+    { address, chainId, activitySource, setActivity }
+  ) => {
+    let symbol: string | undefined;
+    if (token) {
+      symbol = token.trim().toUpperCase() === 'ETH' ? 'ETH' : findToken(chainId, token)?.symbol;
+      if (!symbol) {
+        throw new ToolError('not_found', `${token} is not a supported token on this network`);
+      }
+    }
+
+    const now = Date.now();
+    let items: ActivityItem[];
+    try {
+      // fetch unfiltered so filtering never hides the limit's worth of history
+      items = await activitySource.getActivity({
+        owner: address!,
+        chainId,
+        since: now - days * DAY_MS,
+        limit: direction === 'all' && !symbol ? limit : limit * 4,
+      });
+    } catch (error) {
+      console.error('Error reading activity:', error);
+      throw new ToolError('upstream_error', 'Unable to read recent activity');
+    }
+
+    items = items
+      .filter((item) => direction === 'all' || item.direction === direction)
+      .filter((item) => !symbol || item.symbol === symbol)
+      .slice(0, limit);
+
+    for (const item of items) {
+      item.counterpartyName =
+        findContactByAddress(address!, item.counterparty)?.name ||
+        (await lookupName(item.counterparty, chainId));
+    }
+    setActivity(items);
+
+    return {
+      count: items.length,
+      days,
+      summary: items.length
+        ? items.map((item) => describeItem(item, now))
+        : [`No transfers in the last ${days === 1 ? 'day' : `${days} days`}`],
+      transfers: items.map((item) => ({
+        direction: item.direction,
+        amount: item.amount,
+        symbol: item.symbol,
+        counterparty: item.counterparty,
+        counterparty_name: item.counterpartyName ?? null,
+        timestamp: new Date(item.timestamp).toISOString(),
+        hash: item.hash,
+      })),
+    };
+  },
+});
+
+export const activityTools = [getRecentActivity];
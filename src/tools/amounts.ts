@@ -0,0 +1,25 @@
+import { parseUnits } from 'viem';
+import { ToolError } from './errors';
+
+// JSON schema pattern for positive decimal amounts given in token units
+export const AMOUNT_PATTERN = '^[0-9]+(\\.[0-9]+)?$';
+
+/**
+ * Parses a decimal amount into base units
+ * Rejects zero and more fractional digits than the token supports
+ * instead of letting parseUnits round them away
+ */
+export function parseAmount(amount: string, decimals: number, symbol: string) {
+  const fraction = amount.split('.')[1] || '';
+  if (fraction.length > decimals) {
+    throw new ToolError(
+      'invalid_arguments',
+      `${symbol} supports at most ${decimals} decimal places`
+    );
+  }
+  const value = parseUnits(amount, decimals);
+  if (value === BigInt(0)) {
+    throw new ToolError('invalid_arguments', 'amount must be greater than 0');
+  }
+  return value;
+}
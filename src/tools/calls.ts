@@ -0,0 +1,123 @@
+import { CallBackendError, type Call } from '@/services/calls';
+import { AMOUNT_PATTERN } from './amounts';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+/**
+ * The parts of a call the assistant needs to talk about it
+ */
+function describeCall(call: Call) {
+  const latest = call.events[call.events.length - 1];
+  return {
+    call_id: call.id,
+    status: call.status,
+    latest_update: latest?.message ?? null,
+    outcome: call.outcome
+      ? {
+          agreed: call.outcome.agreed,
+          summary: call.outcome.summary,
+          rate: call.outcome.rate ? `${call.outcome.rate} ARS per USDC` : null,
+          amount: call.outcome.amount ? `${call.outcome.amount} USDC` : null,
+          reference: call.outcome.reference ?? null,
+        }
+      : null,
+    error: call.error ?? null,
+  };
+}
+
+function toToolError(error: unknown): never {
+  if (error instanceof CallBackendError) {
+    throw new ToolError(
+      error.status === 404 ? 'not_found' : 'upstream_error',
+      error.message
+    );
+  }
+  throw error;
+}
+
+export const startCall = defineTool<{ amount: string; quote_id?: string }>({
+  definition: {
+    name: 'start_call',
+    description:
+      'Calls the financial institution to negotiate the best USDC to ARS rate and close the deal. Progress is reported as the call goes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        amount: {
+          type: 'string',
+          description: 'The amount of USDC to negotiate for',
+          pattern: AMOUNT_PATTERN,
+        },
+        quote_id: {
+          type: 'string',
+          description: 'A quote from get_swap_quote to use as the starting point',
+        },
+      },
+      required: ['amount'],
+    },
+  },
+  metadata: { category: 'swap', movesFunds: false, requiresWallet: true },
+  handler: async ({ amount, quote_id }, { address, calls }) => {
+    try {
+      const call = await calls.start({
+        owner: address!,
+        purpose: `Sell ${amount} USDC for ARS at the best available rate`,
+        amount,
+        quoteId: quote_id,
+      });
+      return describeCall(call);
+    } catch (error) {
+      toToolError(error);
+    }
+  },
+});
+
+export const getCallStatus = defineTool({
+  definition: {
+    name: 'get_call_status',
+    description: 'Reports how the call to the financial institution is going, or how it ended.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'swap', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { calls }) => {
+    try {
+      const call = await calls.refresh();
+      if (!call) {
+        throw new ToolError('not_found', 'No call has been started');
+      }
+      return describeCall(call);
+    } catch (error) {
+      toToolError(error);
+    }
+  },
+});
+
+export const cancelCall = defineTool({
+  definition: {
+    name: 'cancel_call',
+    description: 'Hangs up the call to the financial institution.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'swap', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { calls }) => {
+    try {
+      const call = await calls.cancel();
+      if (!call) {
+        throw new ToolError('not_found', 'There is no call in progress');
+      }
+      return describeCall(call);
+    } catch (error) {
+      toToolError(error);
+    }
+  },
+});
+
+export const callTools = [startCall, getCallStatus, cancelCall];
@@ -0,0 +1,222 @@
+import type { Address } from 'viem';
+import { shortenAddress } from '@/services/names';
+import type { PayloadPreview, TokenAllowance } from '@/services/signatures';
+
+/**
+ * What the user is asked to approve before a value-moving tool signs
+ */
+export interface TransactionSummary {
+  action: string;
+  recipient: Address;
+  recipientName?: string;
+  amount: string;
+  symbol: string;
+  chain: string;
+  // what the user gets back, for swaps
+  expectedOutput?: string;
+  estimatedFee?: string;
+  // set when the simulation reverted, the transaction is never offered
+  failureReason?: string;
+  warning?: string;
+}
+
+/**
+ * What the user is asked to sign, shown and read exactly as the wallet will sign it
+ */
+export interface SignatureSummary extends PayloadPreview {
+  signer: Address;
+  chain: string;
+  // permits the spender can use to move tokens later, empty for other payloads
+  allowances?: TokenAllowance[];
+}
+
+/**
+ * Anything the user must approve: a transaction, a signature or moving to a mainnet
+ */
+export type ConfirmationSummary =
+  | ({ kind: 'transaction' } & TransactionSummary)
+  | ({ kind: 'signature' } & SignatureSummary)
+  | { kind: 'network'; chain: string };
+
+export interface PendingConfirmation {
+  id: string;
+  toolName: string;
+  summary: ConfirmationSummary;
+  expiresAt: number;
+}
+
+export type ConfirmationOutcome = 'confirmed' | 'declined' | 'expired';
+
+// a bare "yes" or "sí" is too easy to hear in unrelated speech, the user has to say confirm
+const CONFIRM_WORDS = ['confirm', 'confirmed', 'confirmo', 'confirmar', 'confirma'];
+// "sí, confirmo la transferencia" confirms, a longer sentence that mentions confirming does not
+const MAX_CONFIRM_WORDS = 4;
+// longer messages are summarized aloud, the card always shows them in full
+const SPOKEN_MESSAGE_LIMIT = 280;
+
+const DECLINE_WORDS = ['cancel', 'cancelar', 'cancela', 'no', 'stop', 'decline'];
+
+/**
+ * Rounds a fee to two significant digits, nobody wants to hear eighteen decimals
+ */
+export function formatFee(fee: string) {
+  const value = Number(fee);
+  return value > 0 ? String(Number(value.toPrecision(2))) : fee;
+}
+
+/**
+ * Sentence the assistant reads aloud before asking for confirmation
+ */
+export function describeSummary(summary: ConfirmationSummary) {
+  if (summary.kind === 'network') {
+    return `Switch to ${summary.chain}, a mainnet where transactions use real funds.`;
+  }
+  if (summary.kind === 'signature') {
+    return describeSignature(summary);
+  }
+  const { action, recipient, recipientName, amount, symbol, chain, estimatedFee, warning } =
+    summary;
+  const output = summary.expectedOutput ? ` for ${summary.expectedOutput}` : '';
+  // Say the name when there is one, reading out hex is useless
+  const to = recipientName || shortenAddress(recipient);
+  const fee = estimatedFee
+    ? `This will cost about ${formatFee(estimatedFee)} ETH in fees.`
+    : 'The network fee could not be estimated.';
+  const caution = warning ? ` Note that ${warning}.` : '';
+  const via = summary.expectedOutput ? 'via' : 'to';
+  return `${action} ${amount} ${symbol}${output} ${via} ${to} on ${chain}. ${fee}${caution}`;
+}
+
+/**
+ * "0x1234…abcd can spend up to 10 USDC", said for every allowance a permit grants
+ */
+export function describeAllowance({ spender, symbol, amount, unlimited }: TokenAllowance) {
+  const limit = unlimited ? `any amount of ${symbol}` : `up to ${amount} ${symbol}`;
+  return `${shortenAddress(spender)} can spend ${limit} from your wallet`;
+}
+
+function describeSignature(summary: SignatureSummary) {
+  const { allowances = [] } = summary;
+  const granted = allowances.map(describeAllowance).join(', and ');
+  const effect = allowances.length
+    ? `Warning, this grants a token allowance: ${granted}, at any time and without asking you again.`
+    : 'Signing is free and sends nothing onchain.';
+  if (summary.method === 'personal_sign') {
+    const message = summary.message || '';
+    const spoken =
+      message.length > SPOKEN_MESSAGE_LIMIT
+        ? `a ${message.length} character message starting with ` +
+          `"${message.slice(0, SPOKEN_MESSAGE_LIMIT)}", the full text is on screen,`
+        : `the message "${message}"`;
+    return `Sign ${spoken} with your wallet on ${summary.chain}. ${effect}`;
+  }
+  const domain = summary.domain ? ` for ${summary.domain}` : '';
+  const fields = (summary.fields || []).map(({ name, value }) => `${name} is ${value}`).join('; ');
+  return `Sign a ${summary.primaryType} structured message${domain}, where ${fields}. ${effect}`;
+}
+
+/**
+ * Holds at most one value-moving action waiting for the user
+ * Resolved by a click on the confirmation card, a spoken reply or the timeout
+ */
+export class ConfirmationManager {
+  timeoutMs: number;
+  private pending: PendingConfirmation | null = null;
+  private resolvePending: ((outcome: ConfirmationOutcome) => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  // user items heard so far, and those that already existed when the pending request opened
+  private userItems = new Set<string>();
+  private earlierItems = new Set<string>();
+
+  constructor({ timeoutMs = 60_000 }: { timeoutMs?: number } = {}) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Shows the summary and waits for the user, any previous request is declined
+   */
+  request(toolName: string, summary: ConfirmationSummary): Promise<ConfirmationOutcome> {
+    this.settle('declined');
+    this.earlierItems = new Set(this.userItems);
+    return new Promise((resolve) => {
+      this.pending = {
+        id: crypto.randomUUID(),
+        toolName,
+        summary,
+        expiresAt: Date.now() + this.timeoutMs,
+      };
+      this.resolvePending = resolve;
+      this.timer = setTimeout(() => this.settle('expired'), this.timeoutMs);
+      this.emit();
+    });
+  }
+
+  confirm() {
+    this.settle('confirmed');
+  }
+
+  decline() {
+    this.settle('declined');
+  }
+
+  /**
+   * Matches the transcript of a user item against confirm / cancel words
+   * Only items created after request() count, a late transcript of what the user said
+   * before the summary was read can never settle it
+   * Declining wins when both appear, e.g. "no, don't confirm"
+   * Returns true when the utterance settled the pending confirmation
+   */
+  handleUtterance(itemId: string, transcript: string): boolean {
+    this.userItems.add(itemId);
+    if (!this.pending || this.earlierItems.has(itemId)) {
+      return false;
+    }
+    const words = transcript
+      .toLowerCase()
+      .split(/[\s.,;:!?¡¿"']+/)
+      .filter(Boolean);
+    if (words.some((word) => DECLINE_WORDS.includes(word))) {
+      this.decline();
+      return true;
+    }
+    if (
+      words.length <= MAX_CONFIRM_WORDS &&
+      words.some((word) => CONFIRM_WORDS.includes(word))
+    ) {
+      this.confirm();
+      return true;
+    }
+    return false;
+  }
+
+  getPending() {
+    return this.pending;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private settle(outcome: ConfirmationOutcome) {
+    if (!this.resolvePending) {
+      return;
+    }
+    const resolve = this.resolvePending;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.pending = null;
+    this.resolvePending = null;
+    this.timer = null;
+    this.emit();
+    resolve(outcome);
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  ContactError,
+  addContact as saveContact,
+  loadContacts,
+  removeContact as deleteContact,
+  renameContact as updateContact,
+} from '@/services/contacts';
+import { ToolError } from './errors';
+import { resolveRecipient } from './recipients';
+import { defineTool } from './registry';
+
+function toToolError(error: unknown): never {
+  if (error instanceof ContactError) {
+    throw new ToolError(
+      error.reason === 'not_found' ? 'not_found' : 'invalid_arguments',
+      error.message
+    );
+  }
+  throw error;
+}
+
+export const addContact = defineTool<{ name: string; address: string }>({
+  definition: {
+    name: 'add_contact',
+    description:
+      'Saves a contact so the user can send to them by name, e.g. "save alice.base.eth as my sister".',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'What the user calls the contact (e.g., sister, Alice)',
+          minLength: 1,
+          maxLength: 64,
+        },
+        address: {
+          type: 'string',
+          description: 'The contact address, ENS name or Basename',
+          minLength: 1,
+        },
+      },
+      required: ['name', 'address'],
+    },
+  },
+  metadata: { category: 'contacts', movesFunds: false, requiresWallet: true },
+  handler: async ({ name, address }, { address: owner, chainId }) => {
+    // contacts are never resolved through other contacts
+    const resolved = await resolveRecipient(address, chainId);
+    try {
+      const contact = saveContact(owner!, {
+        name,
+        address: resolved.address,
+        ensName: resolved.name,
+      });
+      return { name: contact.name, address: contact.address, ens_name: contact.ensName ?? null };
+    } catch (error) {
+      toToolError(error);
+    }
+  },
+});
+
+export const listContacts = defineTool({
+  definition: {
+    name: 'list_contacts',
+    description: 'Lists the contacts saved for the connected wallet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'contacts', movesFunds: false, requiresWallet: true },
+  handler: async (_args, { address: owner }) => {
+    const contacts = loadContacts(owner!);
+    return {
+      count: contacts.length,
+      contacts: contacts.map((contact) => ({
+        name: contact.name,
+        address: contact.address,
+        ens_name: contact.ensName ?? null,
+      })),
+    };
+  },
+});
+
+export const renameContact = defineTool<{ name: string; new_name: string }>({
+  definition: {
+    name: 'rename_contact',
+    description: 'Renames a saved contact.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'The current name of the contact',
+          minLength: 1,
+        },
+        new_name: {
+          type: 'string',
+          description: 'The new name for the contact',
+          minLength: 1,
+          maxLength: 64,
+        },
+      },
+      required: ['name', 'new_name'],
+    },
+  },
+  metadata: { category: 'contacts', movesFunds: false, requiresWallet: true },
+  handler: async ({ name, new_name }, { address: owner }) => {
+    try {
+      const contact = updateContact(owner!, name, new_name);
+      return { name: contact.name, address: contact.address };
+    } catch (error) {
+      toToolError(error);
+    }
+  },
+});
+
+export const removeContact = defineTool<{ name: string }>({
+  definition: {
+    name: 'remove_contact',
+    description: 'Deletes a saved contact.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'The name of the contact to delete',
+          minLength: 1,
+        },
+      },
+      required: ['name'],
+    },
+  },
+  metadata: { category: 'contacts', movesFunds: false, requiresWallet: true },
+  handler: async ({ name }, { address: owner }) => {
+    try {
+      const contact = deleteContact(owner!, name);
+      return { name: contact.name, address: contact.address, removed: true };
+    } catch (error) {
+      toToolError(error);
+    }
+  },
+});
+
+export const contactTools = [addContact, listContacts, renameContact, removeContact];
@@ -0,0 +1,34 @@
+/**
+ * Machine readable reason a tool call failed, sent back to the model
+ * alongside a human readable message
+ */
+export type ToolErrorCode =
+  | 'invalid_arguments'
+  | 'wallet_not_connected'
+  | 'not_found'
+  | 'unavailable'
+  | 'upstream_error'
+  | 'transaction_failed'
+  | 'insufficient_funds'
+  | 'cancelled'
+  | 'policy_violation'
+  | 'simulation_failed'
+  | 'quote_expired'
+  | 'internal_error';
+
+/**
+ * Thrown by tool handlers to fail with a specific code
+ * Anything else thrown is reported as an internal_error
+ */
+export class ToolError extends Error {
+  code: ToolErrorCode;
+  // structured context for the model, e.g. which spending limit was hit
+  details?: { [key: string]: unknown };
+
+  constructor(code: ToolErrorCode, message: string, details?: { [key: string]: unknown }) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.details = details;
+  }
+}
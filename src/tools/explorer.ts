@@ -0,0 +1,27 @@
+import { getChainConfig } from '@/chains';
+import { defineTool } from './registry';
+
+export const verifyUsdcBalanceOnBlockscout = defineTool({
+  definition: {
+    name: 'verify_usdc_balance_on_blockscout',
+    description: 'Opens a new tab with Blockscout to verify the user\'s USDC balance.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'explorer', movesFunds: false, requiresWallet: true },
+  handler: async (_args, { address, chainId }) => {
+    const blockscoutUrl = `${getChainConfig(chainId).explorerUrl}/address/${address}?tab=tokens`;
+
+    // Open the URL in a new tab
+    window.open(blockscoutUrl, '_blank');
+
+    return {
+      message: 'A new tab has been opened to verify your USDC balance on Blockscout.',
+    };
+  },
+});
+
+export const explorerTools = [verifyUsdcBalanceOnBlockscout];
@@ -0,0 +1,65 @@
+import { memoryTools } from './memory';
+import { weatherTools } from './weather';
+import { paymentTools } from './payments';
+import { walletTools } from './wallet';
+import { swapTools } from './swap';
+import { tokenTools } from './tokens';
+import { explorerTools } from './explorer';
+import { talentTools } from './talent';
+import { networkTools } from './network';
+import { nameTools } from './names';
+import { contactTools } from './contacts';
+import { activityTools } from './activity';
+import { previewTools } from './preview';
+import { callTools } from './calls';
+import { nftTools } from './nft';
+import { sessionTools } from './session';
+import { signatureTools } from './signatures';
+import type { Tool } from './types';
+
+export { mountTools, runTool } from './registry';
+export { ToolError } from './errors';
+export type { TransactionReport } from './transactions';
+export { ConfirmationManager, describeAllowance, describeSummary, formatFee } from './confirmation';
+export { describeMemory } from './memory';
+export { describeSession } from './session';
+export type {
+  ConfirmationOutcome,
+  ConfirmationSummary,
+  PendingConfirmation,
+  SignatureSummary,
+  TransactionSummary,
+} from './confirmation';
+export type { ToolErrorCode } from './errors';
+export type {
+  Tool,
+  ToolContext,
+  ToolMetadata,
+  ToolCategory,
+  ToolReplay,
+  ToolResult,
+} from './types';
+export type { Coordinates } from './weather';
+
+/**
+ * Every tool available to the assistant, in registration order
+ */
+export const tools: Tool[] = [
+  ...memoryTools,
+  ...weatherTools,
+  ...paymentTools,
+  ...walletTools,
+  ...swapTools,
+  ...tokenTools,
+  ...explorerTools,
+  ...talentTools,
+  ...networkTools,
+  ...nameTools,
+  ...contactTools,
+  ...activityTools,
+  ...previewTools,
+  ...callTools,
+  ...nftTools,
+  ...sessionTools,
+  ...signatureTools,
+];
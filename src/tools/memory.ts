@@ -0,0 +1,135 @@
+import {
+  MEMORY_KEY_PATTERN,
+  deleteMemory as deleteEntry,
+  getMemory as getEntry,
+  loadMemory,
+  setMemory as setEntry,
+  type MemoryEntry,
+} from '@/services/memory';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+// entries beyond this are left out of the instructions, list_memory still has them
+const INSTRUCTION_ENTRIES = 50;
+
+const keyParameter = {
+  type: 'string' as const,
+  description:
+    'The key of the memory value. Always use lowercase and underscores, no other characters.',
+  pattern: MEMORY_KEY_PATTERN,
+  maxLength: 64,
+};
+
+function describeEntry({ key, value, updatedAt }: MemoryEntry) {
+  return { key, value, updated_at: new Date(updatedAt).toISOString() };
+}
+
+/**
+ * Instruction lines with what was saved about the user, empty when nothing was
+ */
+export function describeMemory(entries: MemoryEntry[]) {
+  if (entries.length === 0) {
+    return '';
+  }
+  const lines = entries
+    .slice(-INSTRUCTION_ENTRIES)
+    .map(({ key, value }) => `  - ${key}: ${value}`);
+  return (
+    '- What you remember about this user from earlier conversations (set_memory keys):\n' +
+    lines.join('\n')
+  );
+}
+
+export const setMemory = defineTool<{ key: string; value: string }>({
+  definition: {
+    name: 'set_memory',
+    description:
+      'Saves important data about the user into memory, kept for their wallet across conversations. Overwrites the key if it exists.',
+    parameters: {
+      type: 'object',
+      properties: {
+        key: keyParameter,
+        value: {
+          type: 'string',
+          description: 'Value can be anything represented as a string',
+          maxLength: 2000,
+        },
+      },
+      required: ['key', 'value'],
+    },
+  },
+  metadata: { category: 'memory', movesFunds: false, requiresWallet: false },
+  handler: async ({ key, value }, { address }) => {
+    const entry = await setEntry(address, key, value);
+    return {
+      ...describeEntry(entry),
+      persisted: !!address,
+    };
+  },
+});
+
+export const getMemory = defineTool<{ key: string }>({
+  definition: {
+    name: 'get_memory',
+    description: 'Reads one value saved with set_memory.',
+    parameters: {
+      type: 'object',
+      properties: {
+        key: keyParameter,
+      },
+      required: ['key'],
+    },
+  },
+  metadata: { category: 'memory', movesFunds: false, requiresWallet: false },
+  handler: async ({ key }, { address }) => {
+    const entry = await getEntry(address, key);
+    if (!entry) {
+      throw new ToolError('not_found', `Nothing is saved under ${key}`);
+    }
+    return describeEntry(entry);
+  },
+});
+
+export const listMemory = defineTool({
+  definition: {
+    name: 'list_memory',
+    description: 'Lists everything saved about the user with set_memory.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'memory', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { address }) => {
+    const entries = await loadMemory(address);
+    return {
+      count: entries.length,
+      entries: entries.map(describeEntry),
+    };
+  },
+});
+
+export const deleteMemory = defineTool<{ key: string }>({
+  definition: {
+    name: 'delete_memory',
+    description: 'Forgets a value saved with set_memory, e.g. when the user asks to forget something.',
+    parameters: {
+      type: 'object',
+      properties: {
+        key: keyParameter,
+      },
+      required: ['key'],
+    },
+  },
+  metadata: { category: 'memory', movesFunds: false, requiresWallet: false },
+  handler: async ({ key }, { address }) => {
+    const entry = await deleteEntry(address, key);
+    if (!entry) {
+      throw new ToolError('not_found', `Nothing is saved under ${key}`);
+    }
+    return { key, message: `Forgot ${key}` };
+  },
+});
+
+export const memoryTools = [setMemory, getMemory, listMemory, deleteMemory];
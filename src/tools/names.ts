@@ -0,0 +1,51 @@
+import { isAddress } from 'viem';
+import { lookupName } from '@/services/names';
+import { resolveRecipient } from './recipients';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+export const resolveNameTool = defineTool<{ query: string }>({
+  definition: {
+    name: 'resolve_name',
+    description:
+      'Resolves a contact, ENS name or Basename to its address, or looks up the name of an address.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'A name like alice.eth or alice.base.eth, or a 0x address',
+          minLength: 1,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: false },
+  handler: async ({ query }, { address: owner, chainId }) => {
+    const { address, name } = await resolveRecipient(query, chainId, owner);
+    return { address, name: name ?? null };
+  },
+});
+
+export const getMyName = defineTool({
+  definition: {
+    name: 'get_my_name',
+    description: 'Looks up the Basename or ENS name of the connected wallet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: true },
+  handler: async (_args, { address, chainId }) => {
+    if (!address || !isAddress(address)) {
+      throw new ToolError('wallet_not_connected', 'No wallet connected');
+    }
+    const name = await lookupName(address, chainId);
+    return { address, name: name ?? null };
+  },
+});
+
+export const nameTools = [resolveNameTool, getMyName];
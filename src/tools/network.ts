@@ -0,0 +1,66 @@
+import { CHAINS, findChain, getChainConfig } from '@/chains';
+import { isUserRejection } from '@/services/executor';
+import { ToolError } from './errors';
+import { awaitConfirmation, defineTool } from './registry';
+
+export const switchChain = defineTool<{ chain: string }>({
+  definition: {
+    name: 'switch_chain',
+    description:
+      'Switches the wallet to another supported network. Switching to a mainnet asks the user to confirm first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        chain: {
+          type: 'string',
+          description: 'The network to switch to',
+          enum: Object.values(CHAINS).map((config) => config.key),
+        },
+      },
+      required: ['chain'],
+    },
+  },
+  metadata: { category: 'network', movesFunds: false, requiresWallet: false },
+  handler: async ({ chain }, context) => {
+    const target = findChain(chain);
+    if (!target) {
+      throw new ToolError('not_found', `Unsupported network ${chain}`);
+    }
+    const { name } = target.chain;
+    if (target.chain.id === context.chainId) {
+      return { chain: target.key, name, message: `Already on ${name}` };
+    }
+    if (!target.testnet) {
+      await awaitConfirmation(context, 'switch_chain', { kind: 'network', chain: name });
+    }
+    try {
+      await context.switchChainAsync({ chainId: target.chain.id });
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new ToolError('cancelled', `The user rejected switching to ${name} in the wallet`);
+      }
+      console.error('Error switching chain:', error);
+      throw new ToolError('upstream_error', `The wallet did not switch to ${name}`);
+    }
+    return { chain: target.key, name, message: `Switched to ${name}` };
+  },
+});
+
+export const getCurrentChain = defineTool({
+  definition: {
+    name: 'get_current_chain',
+    description: 'Tells which network the wallet is on and whether it is a testnet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'network', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { chainId }) => {
+    const { key, chain, testnet } = getChainConfig(chainId);
+    return { chain: key, name: chain.name, testnet };
+  },
+});
+
+export const networkTools = [getCurrentChain, switchChain];
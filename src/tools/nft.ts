@@ -0,0 +1,88 @@
+import { encodeFunctionData } from 'viem';
+import { writeContract } from 'wagmi/actions';
+import { getChainConfig } from '@/chains';
+import { mintABI } from '@/constants';
+import { fetchNftMetadata, findMintedTokenIds } from '@/services/nft';
+import { preflightTransaction } from '@/services/preflight';
+import { ToolError } from './errors';
+import { resolveRecipient } from './recipients';
+import { defineTool } from './registry';
+import { submitAndWaitForReceipt } from './transactions';
+
+export const mintNft = defineTool<{ to?: string }>({
+  definition: {
+    name: 'mint_nft',
+    description:
+      'Mints a collectible NFT to the connected wallet, or to a contact, address, ENS name or Basename, and reports the minted token ID once confirmed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'string',
+          description: 'Who receives the NFT, leave out to mint to the connected wallet',
+          minLength: 1,
+        },
+      },
+      required: [],
+    },
+  },
+  // minting is free, the wallet still asks the user to sign
+  metadata: { category: 'collectibles', movesFunds: false, requiresWallet: true },
+  handler: async ({ to }, { config, address, chainId, setMintedNft }) => {
+    const { mintContractAddress, explorerUrl } = getChainConfig(chainId);
+    if (!mintContractAddress) {
+      throw new ToolError('unavailable', 'Minting is not available on this network');
+    }
+    const recipient = to
+      ? await resolveRecipient(to, chainId, address)
+      : { address: address!, name: undefined };
+
+    const preflight = await preflightTransaction(config, {
+      account: address!,
+      to: mintContractAddress,
+      data: encodeFunctionData({ abi: mintABI, functionName: 'mint', args: [recipient.address] }),
+      chainId,
+    });
+    if (!preflight.willSucceed) {
+      throw new ToolError('simulation_failed', `This mint would fail: ${preflight.failureReason}`);
+    }
+
+    const { report, receipt } = await submitAndWaitForReceipt(config, chainId, () =>
+      writeContract(config, {
+        address: mintContractAddress,
+        abi: mintABI,
+        functionName: 'mint',
+        args: [recipient.address],
+        chainId,
+      })
+    );
+
+    const tokenIds = findMintedTokenIds(receipt, mintContractAddress, recipient.address);
+    if (tokenIds.length > 0) {
+      const tokenId = tokenIds[tokenIds.length - 1];
+      const metadata = await fetchNftMetadata(config, mintContractAddress, tokenId, chainId);
+      setMintedNft({
+        contract: mintContractAddress,
+        tokenId,
+        owner: recipient.address,
+        chainId,
+        ...metadata,
+        explorerUrl: `${explorerUrl}/token/${mintContractAddress}?a=${tokenId}`,
+      });
+    }
+
+    return {
+      token_ids: tokenIds,
+      recipient: recipient.address,
+      recipient_name: recipient.name ?? null,
+      to_self: recipient.address.toLowerCase() === address!.toLowerCase(),
+      ...report,
+      message:
+        tokenIds.length > 0
+          ? `${report.message}, minted token #${tokenIds.join(', #')}`
+          : `${report.message}, but no minted token was found in the receipt`,
+    };
+  },
+});
+
+export const nftTools = [mintNft];
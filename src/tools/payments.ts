@@ -0,0 +1,69 @@
+import { sendTransaction } from 'wagmi/actions';
+import { getChainConfig } from '@/chains';
+import { preflightTransaction } from '@/services/preflight';
+import { AMOUNT_PATTERN, parseAmount } from './amounts';
+import { resolveRecipient } from './recipients';
+import { defineTool } from './registry';
+import { submitAndWait } from './transactions';
+
+export const sendEth = defineTool<{ to: string; amount: string }>({
+  definition: {
+    name: 'send_eth',
+    description: 'Sends a specified amount of ETH to a contact, address, ENS name or Basename.',
+    parameters: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'string',
+          description: 'The recipient contact name, address, ENS name or Basename (e.g., sister or gonzalomelov.base.eth)',
+          minLength: 1,
+        },
+        amount: {
+          type: 'string',
+          description: 'The amount of ETH to send (in ETH, not Wei)',
+          pattern: AMOUNT_PATTERN,
+        },
+      },
+      required: ['to', 'amount'],
+    },
+  },
+  metadata: { category: 'payments', movesFunds: true, requiresWallet: true },
+  summarize: async ({ to, amount }, { config, address, chainId }) => {
+    const recipient = await resolveRecipient(to, chainId, address);
+    const value = parseAmount(amount, 18, 'ETH');
+    const preflight = await preflightTransaction(config, {
+      account: address!,
+      to: recipient.address,
+      value,
+      chainId,
+      symbol: 'ETH',
+    });
+    return {
+      action: 'Send',
+      recipient: recipient.address,
+      recipientName: recipient.name,
+      amount,
+      symbol: 'ETH',
+      chain: getChainConfig(chainId).chain.name,
+      estimatedFee: preflight.estimatedFee,
+      failureReason: preflight.failureReason,
+      warning: preflight.warning,
+    };
+  },
+  handler: async ({ amount }, { config, chainId }, confirmed) => {
+    // the recipient the user confirmed, resolving the name again could give another address
+    const { recipient, recipientName } = confirmed!;
+    const amountInWei = parseAmount(amount, 18, 'ETH');
+
+    const report = await submitAndWait(config, chainId, () =>
+      sendTransaction(config, {
+        to: recipient,
+        value: amountInWei,
+        chainId,
+      })
+    );
+    return { ...report, recipient, recipient_name: recipientName };
+  },
+});
+
+export const paymentTools = [sendEth];
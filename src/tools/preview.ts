@@ -0,0 +1,104 @@
+import { evaluatePolicy, loadLedger, loadPolicy } from '@/services/policy';
+import { AMOUNT_PATTERN } from './amounts';
+import { describeSummary } from './confirmation';
+import { ToolError } from './errors';
+import { paymentTools } from './payments';
+import { defineTool } from './registry';
+import { swapTools } from './swap';
+import { tokenTools } from './tokens';
+import type { Tool, ToolArgs } from './types';
+import { validateArgs } from './validation';
+
+// Value-moving tools whose transaction can be previewed
+const previewable: Tool[] = [...paymentTools, ...tokenTools, ...swapTools].filter(
+  (tool) => tool.metadata.movesFunds && tool.summarize
+);
+
+export const previewTransaction = defineTool<{
+  action: string;
+  to?: string;
+  amount?: string;
+  token?: string;
+  quote_id?: string;
+}>({
+  definition: {
+    name: 'preview_transaction',
+    description:
+      'Simulates a transaction without sending it and reports the network fee and whether it would fail. Nothing is signed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          description: 'The tool that would send the transaction',
+          enum: previewable.map((tool) => tool.definition.name),
+        },
+        to: {
+          type: 'string',
+          description: 'The recipient, as the action expects it',
+        },
+        amount: {
+          type: 'string',
+          description: 'The amount, as the action expects it',
+          pattern: AMOUNT_PATTERN,
+        },
+        token: {
+          type: 'string',
+          description: 'The token, for transfer_token',
+        },
+        quote_id: {
+          type: 'string',
+          description: 'The quote, for swap_usdc_for_ars',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  metadata: { category: 'payments', movesFunds: false, requiresWallet: true },
+  handler: async ({ action, ...rest }, context) => {
+    const tool = previewable.find((tool) => tool.definition.name === action)!;
+    const { properties } = tool.definition.parameters;
+    const args: ToolArgs = {};
+    Object.entries(rest).forEach(([key, value]) => {
+      if (properties[key] && value !== undefined) args[key] = value;
+    });
+    const errors = validateArgs(tool.definition.parameters, args);
+    if (errors.length) {
+      throw new ToolError('invalid_arguments', errors.join('; '));
+    }
+
+    let summary;
+    try {
+      summary = await tool.summarize!(args, context);
+    } catch (error) {
+      // a balance that is too low is an answer, not a failure of the preview
+      if (error instanceof ToolError && error.code === 'insufficient_funds') {
+        return { will_succeed: false, failure_reason: error.message };
+      }
+      throw error;
+    }
+
+    const violation = evaluatePolicy(
+      loadPolicy(context.address!),
+      loadLedger(context.address!),
+      summary
+    );
+    return {
+      will_succeed: !summary.failureReason,
+      failure_reason: summary.failureReason ?? null,
+      estimated_fee: summary.estimatedFee ?? null,
+      warning: summary.warning ?? null,
+      policy_violation: violation?.message ?? null,
+      recipient: summary.recipient,
+      recipient_name: summary.recipientName ?? null,
+      amount: summary.amount,
+      symbol: summary.symbol,
+      chain: summary.chain,
+      description: summary.failureReason
+        ? `This would fail: ${summary.failureReason}`
+        : describeSummary({ kind: 'transaction', ...summary }),
+    };
+  },
+});
+
+export const previewTools = [previewTransaction];
@@ -0,0 +1,41 @@
+import type { Address } from 'viem';
+import { findContact } from '@/services/contacts';
+import {
+  NameResolutionError,
+  isName,
+  resolveRecipient as resolveName,
+} from '@/services/names';
+import { ToolError } from './errors';
+
+/**
+ * Resolves a recipient given as a contact name, address, ENS name or Basename
+ * The name, when there is one, is what the assistant should say out loud
+ */
+export async function resolveRecipient(
+  to: string,
+  chainId: number,
+  owner?: Address
+): Promise<{ address: Address; name?: string }> {
+  if (owner && !/^0x/i.test(to.trim()) && !isName(to)) {
+    const contact = findContact(owner, to);
+    if (contact) {
+      return { address: contact.address, name: contact.name };
+    }
+    throw new ToolError(
+      'not_found',
+      `No contact called ${to.trim()}, and it is not an address, ENS name or Basename`
+    );
+  }
+  try {
+    return await resolveName(to, chainId);
+  } catch (error) {
+    if (error instanceof NameResolutionError) {
+      throw new ToolError(
+        error.reason === 'invalid' ? 'invalid_arguments' : 'not_found',
+        error.message
+      );
+    }
+    console.error('Error resolving recipient:', error);
+    throw new ToolError('upstream_error', `Unable to resolve ${to}`);
+  }
+}
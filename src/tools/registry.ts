@@ -0,0 +1,190 @@
+import type { RealtimeClient } from '@openai/realtime-api-beta';
+import type { Address } from 'viem';
+import { checkSpendingPolicy, recordSpend, type SpendRequest } from '@/services/policy';
+import { ToolError, type ToolErrorCode } from './errors';
+import { validateArgs } from './validation';
+import type { ConfirmationSummary, TransactionSummary } from './confirmation';
+import type { Tool, ToolArgs, ToolCategory, ToolContext, ToolResult } from './types';
+
+// tools that only touch browser storage run for real in a replay, against the empty
+// in-page stores ReplaySession sets up, see ToolContext.replay
+const LIVE_IN_REPLAY: ToolCategory[] = ['memory', 'contacts'];
+
+/**
+ * Identity helper so tool modules get their argument types checked
+ */
+export function defineTool<Args extends ToolArgs>(tool: Tool<Args>): Tool<Args> {
+  return tool;
+}
+
+function failure(
+  code: ToolErrorCode,
+  message: string,
+  details?: { [key: string]: unknown }
+): ToolResult<never> {
+  return { ok: false, error: details ? { code, message, details } : { code, message } };
+}
+
+/**
+ * Shows the summary and waits for the user to confirm it
+ * Throws a cancelled ToolError when the user declines or does not answer
+ */
+export async function awaitConfirmation(
+  context: ToolContext,
+  toolName: string,
+  summary: ConfirmationSummary
+) {
+  const outcome = await context.confirmations.request(toolName, summary);
+  const subject =
+    summary.kind === 'transaction'
+      ? 'the transaction'
+      : summary.kind === 'signature'
+        ? 'signing the message'
+        : `switching to ${summary.chain}`;
+  if (outcome === 'declined') {
+    throw new ToolError('cancelled', `The user declined ${subject}, nothing was done`);
+  }
+  if (outcome === 'expired') {
+    const seconds = Math.round(context.confirmations.timeoutMs / 1000);
+    throw new ToolError(
+      'cancelled',
+      `The user did not confirm within ${seconds} seconds, ${subject} was cancelled`
+    );
+  }
+}
+
+/**
+ * Checks a spend against the wallet's policy
+ * Throws a policy_violation ToolError naming the broken rule
+ */
+export function enforceSpendingPolicy(address: Address, request: SpendRequest) {
+  const violation = checkSpendingPolicy(address, request);
+  if (violation) {
+    throw new ToolError('policy_violation', violation.message, {
+      rule: violation.rule,
+      ...violation.details,
+    });
+  }
+}
+
+/**
+ * Stops transactions whose simulation reverted, checks the spending policy,
+ * then shows the transaction summary and waits for the user to confirm it
+ * Throws a simulation_failed, policy_violation or cancelled ToolError when it may not proceed
+ */
+async function requireConfirmation(
+  tool: Tool,
+  args: ToolArgs,
+  context: ToolContext
+): Promise<TransactionSummary> {
+  const { name } = tool.definition;
+  if (!tool.summarize) {
+    throw new ToolError('internal_error', `${name} moves funds but cannot describe the transaction`);
+  }
+  const summary = await tool.summarize(args, context);
+  if (summary.failureReason) {
+    throw new ToolError('simulation_failed', `This would fail: ${summary.failureReason}`, {
+      reason: summary.failureReason,
+    });
+  }
+  enforceSpendingPolicy(context.address!, summary);
+  await awaitConfirmation(context, name, { kind: 'transaction', ...summary });
+  return summary;
+}
+
+/**
+ * True for a transaction that was sent but whose outcome is unknown,
+ * reverted ones report their status and moved nothing
+ */
+function isBroadcast(error: unknown) {
+  return (
+    error instanceof ToolError &&
+    error.code === 'transaction_failed' &&
+    !!error.details?.hash &&
+    error.details.status !== 'reverted'
+  );
+}
+
+/**
+ * Validates arguments, checks preconditions and runs the handler,
+ * always resolving to a ToolResult envelope
+ * The context is read again after confirmation since the user may take a while,
+ * a wallet or network switch in the meantime cancels what was confirmed
+ */
+export async function runTool(
+  tool: Tool,
+  args: unknown,
+  getContext: () => ToolContext
+): Promise<ToolResult> {
+  const { name, parameters } = tool.definition;
+  const errors = validateArgs(parameters, args);
+  if (errors.length) {
+    return failure('invalid_arguments', errors.join('; '));
+  }
+  const { replay } = getContext();
+  if (replay && !LIVE_IN_REPLAY.includes(tool.metadata.category)) {
+    return (
+      replay.recordedResult(name) ??
+      failure('unavailable', `The recording has no result for ${name}`)
+    );
+  }
+  if (tool.metadata.requiresWallet && !getContext().address) {
+    return failure('wallet_not_connected', 'No wallet connected');
+  }
+  const confirmedContext = getContext();
+  let summary: TransactionSummary | null = null;
+  try {
+    summary = tool.metadata.movesFunds
+      ? await requireConfirmation(tool, args as ToolArgs, confirmedContext)
+      : null;
+    const context = getContext();
+    if (
+      summary &&
+      (context.chainId !== confirmedContext.chainId || context.address !== confirmedContext.address)
+    ) {
+      throw new ToolError(
+        'cancelled',
+        'The wallet or network changed while waiting for confirmation, nothing was sent'
+      );
+    }
+    const data = await tool.handler(args as ToolArgs, context, summary ?? undefined);
+    if (summary) {
+      recordSpend(confirmedContext.address!, summary);
+    }
+    return { ok: true, data: data ?? null };
+  } catch (error) {
+    if (summary && isBroadcast(error)) {
+      // the receipt never came but the transaction is out, it counts against the limits
+      recordSpend(confirmedContext.address!, summary);
+    }
+    if (error instanceof ToolError) {
+      return failure(error.code, error.message, error.details);
+    }
+    console.error(`Error running tool ${name}:`, error);
+    return failure(
+      'internal_error',
+      error instanceof Error ? error.message : `Unexpected error in ${name}`
+    );
+  }
+}
+
+/**
+ * Registers every tool with the client
+ * Handlers read the context lazily so the Console can keep it fresh
+ * without re-registering tools on every render
+ */
+export function mountTools(
+  client: RealtimeClient,
+  tools: Tool[],
+  getContext: () => ToolContext
+) {
+  for (const tool of tools) {
+    client.addTool(tool.definition, async (args: unknown) => {
+      const result = await runTool(tool, args, getContext);
+      if (!result.ok) {
+        console.warn(`[tools] ${tool.definition.name} failed`, result.error);
+      }
+      return result;
+    });
+  }
+}
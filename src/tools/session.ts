@@ -0,0 +1,80 @@
+import type { SessionState } from '@/hooks/useSession';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+export const getSession = defineTool({
+  definition: {
+    name: 'get_session',
+    description:
+      'Tells whether the user is signed in with Ethereum (authenticated), not just connected, and with which wallet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { session }) => ({
+    authenticated: session.status === 'authenticated',
+    address: session.address ?? null,
+    expires_at: session.expiresAt ? new Date(session.expiresAt).toISOString() : null,
+  }),
+});
+
+export const signIn = defineTool({
+  definition: {
+    name: 'sign_in',
+    description:
+      'Signs the user in with Ethereum: the wallet asks them to sign a message, nothing is sent onchain and it costs nothing.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: true },
+  handler: async (_args, { session, signIn }) => {
+    if (session.status === 'authenticated') {
+      return { message: 'Already signed in', address: session.address };
+    }
+    const result = await signIn();
+    if (result.status === 'rejected') {
+      throw new ToolError('cancelled', 'The user rejected the sign in request in the wallet');
+    }
+    if (result.status === 'error') {
+      throw new ToolError('upstream_error', result.message);
+    }
+    return { message: 'Signed in', address: result.address };
+  },
+});
+
+export const signOut = defineTool({
+  definition: {
+    name: 'sign_out',
+    description: 'Ends the signed in session, the wallet stays connected.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { session, signOut }) => {
+    if (session.status !== 'authenticated') {
+      return { message: 'Not signed in' };
+    }
+    await signOut();
+    return { message: 'Signed out' };
+  },
+});
+
+export const sessionTools = [getSession, signIn, signOut];
+
+/**
+ * Instruction line keeping the assistant aware of the session as it changes
+ */
+export function describeSession(session: SessionState) {
+  return session.status === 'authenticated'
+    ? `- The user is signed in with Ethereum as ${session.address}; data saved for them is tied to this verified address`
+    : '- The user is not signed in with Ethereum; a connected wallet alone is not a verified identity, offer sign_in before saving anything for them';
+}
@@ -0,0 +1,225 @@
+import { formatUnits, type Hex } from 'viem';
+import { signMessage as signPersonal, signTypedData } from 'wagmi/actions';
+import { getChainConfig } from '@/chains';
+import { isUserRejection } from '@/services/executor';
+import { recordSpend } from '@/services/policy';
+import {
+  SignatureError,
+  UNLIMITED_ALLOWANCE,
+  findAllowances,
+  parseTypedData,
+  previewPayload,
+  verifySignature as verifyOnchain,
+  type SignaturePayload,
+  type TokenAllowance,
+} from '@/services/signatures';
+import { listTokens } from '@/tokens';
+import { ToolError } from './errors';
+import { resolveRecipient } from './recipients';
+import { awaitConfirmation, defineTool, enforceSpendingPolicy } from './registry';
+import type { ToolContext } from './types';
+
+const SIGNATURE_PATTERN = '^0x[0-9a-fA-F]+$';
+
+/**
+ * Exactly one of message and typed_data, typed data parsed from JSON
+ */
+function toPayload(message?: string, typedData?: string): SignaturePayload {
+  if ((message === undefined) === (typedData === undefined)) {
+    throw new ToolError('invalid_arguments', 'Pass exactly one of message or typed_data');
+  }
+  if (message !== undefined) {
+    return { method: 'personal_sign', message };
+  }
+  try {
+    return { method: 'typed_data', typedData: parseTypedData(typedData!) };
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      throw new ToolError('invalid_arguments', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Token allowances the payload grants, each checked against the spending policy
+ * like a transfer of the whole amount to the spender, who can take it at any time
+ * Throws for grants that cannot be read or are in a token the policy does not know
+ */
+function checkAllowances(payload: SignaturePayload, context: ToolContext): TokenAllowance[] {
+  if (payload.method !== 'typed_data') {
+    return [];
+  }
+  let grants;
+  try {
+    grants = findAllowances(payload.typedData);
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      throw new ToolError('invalid_arguments', error.message);
+    }
+    throw error;
+  }
+  const { chainId: domainChainId } = payload.typedData.domain || {};
+  const chainId = domainChainId === undefined ? context.chainId : Number(domainChainId);
+  return grants.map(({ token: tokenAddress, spender, amount }) => {
+    const token = listTokens(chainId).find(
+      ({ address }) => address.toLowerCase() === tokenAddress.toLowerCase()
+    );
+    if (!token) {
+      throw new ToolError(
+        'policy_violation',
+        `This signature grants an allowance in ${tokenAddress}, a token the spending policy does not cover, so it is not signed`,
+        { rule: 'unknown_allowance_token', token: tokenAddress }
+      );
+    }
+    const allowance = {
+      spender,
+      symbol: token.symbol,
+      amount: formatUnits(amount, token.decimals),
+      unlimited: amount >= UNLIMITED_ALLOWANCE,
+    };
+    enforceSpendingPolicy(context.address!, {
+      symbol: allowance.symbol,
+      amount: allowance.amount,
+      recipient: spender,
+    });
+    return allowance;
+  });
+}
+
+const payloadParameters = {
+  message: {
+    type: 'string' as const,
+    description: 'Plain text to sign with personal_sign, exactly as given by the user',
+    minLength: 1,
+  },
+  typed_data: {
+    type: 'string' as const,
+    description:
+      'EIP-712 typed data as a JSON string with domain, types, primaryType and message, as used by eth_signTypedData_v4',
+    minLength: 2,
+  },
+};
+
+export const signMessage = defineTool<{ message?: string; typed_data?: string }>({
+  definition: {
+    name: 'sign_message',
+    description:
+      'Signs a text message (personal_sign) or EIP-712 typed data with the connected wallet, e.g. to prove wallet ownership. The user sees and hears exactly what is signed and must confirm. Nothing is sent onchain, but permits that grant a token allowance let the spender move those tokens later, so they count against the spending policy.',
+    parameters: {
+      type: 'object',
+      properties: payloadParameters,
+      required: [],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: true },
+  handler: async ({ message, typed_data }, context) => {
+    const payload = toPayload(message, typed_data);
+    const preview = previewPayload(payload);
+    const allowances = checkAllowances(payload, context);
+    await awaitConfirmation(context, 'sign_message', {
+      kind: 'signature',
+      ...preview,
+      allowances,
+      signer: context.address!,
+      chain: getChainConfig(context.chainId).chain.name,
+    });
+
+    const { config, address, setSignature } = context;
+    let signature: Hex;
+    try {
+      signature =
+        payload.method === 'personal_sign'
+          ? await signPersonal(config, { account: address, message: payload.message })
+          : await signTypedData(config, { account: address, ...payload.typedData });
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new ToolError('cancelled', 'The user rejected the signature in the wallet');
+      }
+      console.error('Error signing message:', error);
+      throw new ToolError('upstream_error', 'The wallet could not sign the message');
+    }
+
+    allowances.forEach(({ spender, symbol, amount }) =>
+      recordSpend(address!, { symbol, amount, recipient: spender })
+    );
+    setSignature({ action: 'signed', preview, signer: address!, signature });
+    return {
+      method: payload.method,
+      signer: address,
+      signature,
+      allowances,
+      message: 'Signed, the signature is shown on screen',
+    };
+  },
+});
+
+export const verifySignature = defineTool<{
+  signer: string;
+  signature: string;
+  message?: string;
+  typed_data?: string;
+}>({
+  definition: {
+    name: 'verify_signature',
+    description:
+      'Checks that a signature over a message or EIP-712 typed data was made by a wallet, including smart wallets (ERC-1271) and smart wallets not deployed yet (ERC-6492).',
+    parameters: {
+      type: 'object',
+      properties: {
+        signer: {
+          type: 'string',
+          description: 'Who supposedly signed: a contact name, address, ENS name or Basename',
+          minLength: 1,
+        },
+        signature: {
+          type: 'string',
+          description: 'The signature as hex',
+          pattern: SIGNATURE_PATTERN,
+        },
+        ...payloadParameters,
+      },
+      required: ['signer', 'signature'],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: false },
+  handler: async ({ signer, signature, message, typed_data }, context) => {
+    const { config, chainId, address, setSignature } = context;
+    const payload = toPayload(message, typed_data);
+    const recipient = await resolveRecipient(signer, chainId, address);
+
+    let result;
+    try {
+      result = await verifyOnchain(config, {
+        address: recipient.address,
+        payload,
+        signature: signature as Hex,
+        chainId,
+      });
+    } catch (error) {
+      if (error instanceof SignatureError) {
+        throw new ToolError('invalid_arguments', error.message);
+      }
+      console.error('Error verifying signature:', error);
+      throw new ToolError('upstream_error', 'Unable to verify the signature right now');
+    }
+
+    setSignature({
+      action: 'verified',
+      preview: previewPayload(payload),
+      signer: recipient.address,
+      signerName: recipient.name,
+      signature: signature as Hex,
+      ...result,
+    });
+    return {
+      valid: result.valid,
+      signer: recipient.address,
+      signer_name: recipient.name ?? null,
+      wallet_type: result.walletKind,
+      chain: getChainConfig(chainId).chain.name,
+    };
+  },
+});
+
+export const signatureTools = [signMessage, verifySignature];
@@ -0,0 +1,181 @@
+import { encodeFunctionData, erc20Abi } from 'viem';
+import { writeContract } from 'wagmi/actions';
+import { getChainConfig } from '@/chains';
+import { getToken } from '@/tokens';
+import { preflightTransaction } from '@/services/preflight';
+import { lookupName } from '@/services/names';
+import {
+  SwapError,
+  findQuote,
+  isQuoteExpired,
+  rememberQuote,
+  type SwapQuote,
+} from '@/services/swap';
+import { AMOUNT_PATTERN, parseAmount } from './amounts';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+import { parseTransferAmount } from './tokens';
+import { submitAndWait } from './transactions';
+
+/**
+ * Looks up a quote the assistant fetched earlier and makes sure it can still be used
+ */
+function requireQuote(quoteId: string, chainId: number): SwapQuote {
+  const quote = findQuote(quoteId);
+  if (!quote) {
+    throw new ToolError('not_found', `Unknown quote ${quoteId}, get a new quote first`);
+  }
+  if (quote.chainId !== chainId) {
+    throw new ToolError(
+      'invalid_arguments',
+      'The quote was made for another network, get a new quote first'
+    );
+  }
+  if (isQuoteExpired(quote)) {
+    throw new ToolError('quote_expired', 'The quote expired, get a new quote first', {
+      quote_id: quote.id,
+    });
+  }
+  return quote;
+}
+
+export const getSwapQuote = defineTool<{ amount: string }>({
+  definition: {
+    name: 'get_swap_quote',
+    description:
+      'Gets a quote for swapping an amount of USDC to Argentine pesos (ARS). Quotes expire, tell the user the rate and how long it is valid.',
+    parameters: {
+      type: 'object',
+      properties: {
+        amount: {
+          type: 'string',
+          description: 'The amount of USDC to swap (e.g., 25)',
+          pattern: AMOUNT_PATTERN,
+        },
+      },
+      required: ['amount'],
+    },
+  },
+  metadata: { category: 'swap', movesFunds: false, requiresWallet: true },
+  handler: async ({ amount }, { address, chainId, swapProvider }) => {
+    const usdc = getToken(chainId, 'USDC');
+    parseAmount(amount, usdc.decimals, usdc.symbol);
+    let quote: SwapQuote;
+    try {
+      quote = await swapProvider.getQuote({ amountIn: amount, owner: address!, chainId });
+    } catch (error) {
+      console.error('Error fetching swap quote:', error);
+      throw new ToolError('upstream_error', 'Unable to get a USDC to ARS quote right now');
+    }
+    rememberQuote(quote);
+    return {
+      quote_id: quote.id,
+      amount_in: `${quote.amountIn} USDC`,
+      amount_out: `${quote.amountOut} ARS`,
+      rate: `${quote.rate} ARS per USDC`,
+      expires_in_seconds: Math.max(0, Math.round((quote.expiresAt - Date.now()) / 1000)),
+      provider: quote.provider,
+    };
+  },
+});
+
+export const swapUsdcForArs = defineTool<{ quote_id: string }>({
+  definition: {
+    name: 'swap_usdc_for_ars',
+    description:
+      'Swaps USDC for ARS at a quote from get_swap_quote: approves the USDC and settles the swap with the provider.',
+    parameters: {
+      type: 'object',
+      properties: {
+        quote_id: {
+          type: 'string',
+          description: 'The quote_id returned by get_swap_quote',
+          minLength: 1,
+        },
+      },
+      required: ['quote_id'],
+    },
+  },
+  metadata: { category: 'swap', movesFunds: true, requiresWallet: true },
+  summarize: async ({ quote_id }, { config, address, chainId }) => {
+    const quote = requireQuote(quote_id, chainId);
+    const usdc = getToken(chainId, 'USDC');
+    const value = await parseTransferAmount(config, usdc, address!, chainId, quote.amountIn);
+    const preflight = await preflightTransaction(config, {
+      account: address!,
+      to: usdc.address,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [quote.spender, value],
+      }),
+      chainId,
+      symbol: 'USDC',
+    });
+    return {
+      action: 'Swap',
+      recipient: quote.spender,
+      recipientName: await lookupName(quote.spender, chainId),
+      amount: quote.amountIn,
+      symbol: 'USDC',
+      chain: getChainConfig(chainId).chain.name,
+      expectedOutput: `${quote.amountOut} ARS at ${quote.rate} ARS per USDC`,
+      estimatedFee: preflight.estimatedFee,
+      failureReason: preflight.failureReason,
+      warning: preflight.warning,
+    };
+  },
+  handler: async ({ quote_id }, { config, address, chainId, swapProvider }) => {
+    // the user may have taken a while to confirm
+    const quote = requireQuote(quote_id, chainId);
+    const usdc = getToken(chainId, 'USDC');
+    const value = parseAmount(quote.amountIn, usdc.decimals, usdc.symbol);
+
+    const approval = await submitAndWait(config, chainId, () =>
+      writeContract(config, {
+        address: usdc.address,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [quote.spender, value],
+        chainId,
+      })
+    );
+
+    let settlement;
+    try {
+      settlement = await swapProvider.settle({
+        quote,
+        owner: address!,
+        approvalHash: approval.hash,
+      });
+    } catch (error) {
+      console.error('Error settling swap:', error);
+      const details = { approval_hash: approval.hash, explorer_url: approval.explorer_url };
+      if (error instanceof SwapError && error.reason === 'expired') {
+        throw new ToolError(
+          'quote_expired',
+          'The USDC was approved but the quote expired before settling, get a new quote to finish the swap',
+          details
+        );
+      }
+      throw new ToolError(
+        'upstream_error',
+        'The USDC was approved but the swap could not be settled',
+        details
+      );
+    }
+
+    return {
+      amount_in: `${settlement.amountIn} USDC`,
+      amount_out: `${settlement.amountOut} ARS`,
+      rate: `${settlement.rate} ARS per USDC`,
+      reference: settlement.reference,
+      approval,
+      receipt:
+        `Swapped ${settlement.amountIn} USDC for ${settlement.amountOut} ARS ` +
+        `at ${settlement.rate} ARS per USDC. Reference ${settlement.reference}.`,
+    };
+  },
+});
+
+export const swapTools = [getSwapQuote, swapUsdcForArs];
@@ -0,0 +1,93 @@
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+export const getTalentInfo = defineTool<{ name: string }>({
+  definition: {
+    name: 'get_talent_info',
+    description: 'Searches for a person on Talent Protocol and provides a brief summary.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'The name of the person to search for on Talent Protocol',
+          minLength: 1,
+        },
+      },
+      required: ['name'],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: false },
+  handler: async ({ name }) => {
+    const response = await fetch(`https://api.talentprotocol.com/api/v2/passports?keyword=${encodeURIComponent(name)}`, {
+      headers: { 'x-api-key': process.env.NEXT_PUBLIC_TALENT_API_KEY! }
+    });
+
+    if (!response.ok) {
+      console.error('Error fetching talent info:', response.status);
+      throw new ToolError('upstream_error', 'Failed to fetch talent information');
+    }
+
+    const data = await response.json();
+
+    if (data.passports && data.passports.length > 0) {
+      const firstResult = data.passports[0];
+      const { passport_id } = firstResult;
+      const { display_name, bio, tags, score } = firstResult.passport_profile;
+
+      const summary = `${display_name || name} is a ${tags.join(', ')} professional with a Talent Protocol score of ${score}, described as: ${bio || 'No bio available'}. His passport ID is ${passport_id}.`;
+
+      return { summary };
+    } else {
+      return { summary: `No information found for ${name} on Talent Protocol.` };
+    }
+  },
+});
+
+export const getTalentExtendedInfo = defineTool<{ passport_id: string }>({
+  definition: {
+    name: 'get_talent_extended_info',
+    description: 'Fetches the Gitcoin Passport score for a Talent Protocol user.',
+    parameters: {
+      type: 'object',
+      properties: {
+        passport_id: {
+          type: 'string',
+          description: 'The passport ID of the person to search for on Talent Protocol',
+          pattern: '^[0-9]+$',
+        },
+      },
+      required: ['passport_id'],
+    },
+  },
+  metadata: { category: 'identity', movesFunds: false, requiresWallet: false },
+  handler: async ({ passport_id }) => {
+    const response = await fetch(`https://api.talentprotocol.com/api/v2/passport_credentials?passport_id=${encodeURIComponent(passport_id)}`, {
+      headers: { 'x-api-key': process.env.NEXT_PUBLIC_TALENT_API_KEY! }
+    });
+
+    if (!response.ok) {
+      console.error('Error fetching Gitcoin Passport score:', response.status);
+      throw new ToolError('upstream_error', 'Failed to fetch Gitcoin Passport score');
+    }
+
+    const data = await response.json();
+
+    // Find the Gitcoin Passport credential
+    const gitcoinPassport = data.passport_credentials.find(
+      (cred: any) => cred.type === 'gitcoin'
+    );
+
+    if (gitcoinPassport) {
+      return {
+        message: `Gitcoin Passport: ${gitcoinPassport.value}`
+      };
+    } else {
+      return {
+        message: "No Gitcoin Passport score found for this user."
+      };
+    }
+  },
+});
+
+export const talentTools = [getTalentInfo, getTalentExtendedInfo];
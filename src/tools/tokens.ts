@@ -0,0 +1,225 @@
+import { encodeFunctionData, erc20Abi, type Address } from 'viem';
+import type { Config } from 'wagmi';
+import { writeContract } from 'wagmi/actions';
+import { getChainConfig } from '@/chains';
+import { findToken, getToken, listTokens, type Token } from '@/tokens';
+import { readTokenBalance } from '@/services/balances';
+import { preflightTransaction } from '@/services/preflight';
+import { AMOUNT_PATTERN, parseAmount } from './amounts';
+import type { TransactionSummary } from './confirmation';
+import { ToolError } from './errors';
+import { resolveRecipient } from './recipients';
+import { defineTool } from './registry';
+import { submitAndWait } from './transactions';
+import type { ToolContext } from './types';
+
+/**
+ * Looks a token up by symbol, name or alias on the given chain
+ */
+function resolveToken(chainId: number, query: string): Token {
+  const token = findToken(chainId, query);
+  if (!token) {
+    const supported = listTokens(chainId).map((token) => token.symbol);
+    throw new ToolError('not_found', `Unknown token ${query}`, { supported });
+  }
+  return token;
+}
+
+async function getBalance(config: Config, token: Token, owner: Address, chainId: number) {
+  try {
+    return await readTokenBalance(config, token, owner, chainId);
+  } catch (error) {
+    console.error(`Error fetching ${token.symbol} balance:`, error);
+    throw new ToolError('unavailable', `Unable to fetch ${token.symbol} balance`);
+  }
+}
+
+/**
+ * Parses a transfer amount and checks it against the wallet's balance
+ */
+export async function parseTransferAmount(
+  config: Config,
+  token: Token,
+  owner: Address,
+  chainId: number,
+  amount: string
+) {
+  const value = parseAmount(amount, token.decimals, token.symbol);
+  const balance = await getBalance(config, token, owner, chainId);
+  if (value > balance.value) {
+    throw new ToolError(
+      'insufficient_funds',
+      `Cannot send ${amount} ${token.symbol}, the balance is ${balance.formatted} ${token.symbol}`,
+      { balance: balance.formatted, symbol: token.symbol }
+    );
+  }
+  return value;
+}
+
+async function summarizeTransfer(
+  token: Token,
+  { to, amount }: { to: string; amount: string },
+  { config, address, chainId }: ToolContext
+) {
+  const recipient = await resolveRecipient(to, chainId, address);
+  const value = await parseTransferAmount(config, token, address!, chainId, amount);
+  const preflight = await preflightTransaction(config, {
+    account: address!,
+    to: token.address,
+    data: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [recipient.address, value],
+    }),
+    chainId,
+    symbol: token.symbol,
+  });
+  return {
+    action: 'Send',
+    recipient: recipient.address,
+    recipientName: recipient.name,
+    amount,
+    symbol: token.symbol,
+    chain: getChainConfig(chainId).chain.name,
+    estimatedFee: preflight.estimatedFee,
+    failureReason: preflight.failureReason,
+    warning: preflight.warning,
+  };
+}
+
+/**
+ * Sends exactly the transfer the user confirmed
+ */
+async function executeTransfer(
+  token: Token,
+  { amount }: { to: string; amount: string },
+  { config, address, chainId }: ToolContext,
+  { recipient, recipientName }: TransactionSummary
+) {
+  const value = await parseTransferAmount(config, token, address!, chainId, amount);
+  const report = await submitAndWait(config, chainId, () =>
+    writeContract(config, {
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [recipient, value],
+      chainId,
+    })
+  );
+  return { ...report, recipient, recipient_name: recipientName };
+}
+
+export const getTokenBalance = defineTool<{ token: string }>({
+  definition: {
+    name: 'get_token_balance',
+    description:
+      'Retrieves the balance of an ERC-20 token (e.g. USDC, EURC, WETH, or words like "dollars") held by the connected wallet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        token: {
+          type: 'string',
+          description: 'Token symbol, name or alias, e.g. "USDC" or "dollars"',
+          minLength: 1,
+        },
+      },
+      required: ['token'],
+    },
+  },
+  metadata: { category: 'wallet', movesFunds: false, requiresWallet: true },
+  handler: async ({ token: query }, { config, address, chainId }) => {
+    const token = resolveToken(chainId, query);
+    const balance = await getBalance(config, token, address!, chainId);
+    return {
+      address: address,
+      balance: balance.formatted,
+      symbol: token.symbol,
+    };
+  },
+});
+
+export const getUsdcBalance = defineTool({
+  definition: {
+    name: 'get_usdc_balance',
+    description: 'Retrieves the current USDC balance of the connected wallet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'wallet', movesFunds: false, requiresWallet: true },
+  handler: async (_args, { config, address, chainId }) => {
+    const usdc = getToken(chainId, 'USDC');
+    const balance = await getBalance(config, usdc, address!, chainId);
+    return {
+      address: address,
+      balance: balance.formatted,
+      symbol: 'USDC',
+    };
+  },
+});
+
+export const transferToken = defineTool<{ token: string; to: string; amount: string }>({
+  definition: {
+    name: 'transfer_token',
+    description:
+      'Transfers an amount of an ERC-20 token (e.g. USDC, EURC, WETH, or words like "dollars") to a contact, address, ENS name or Basename.',
+    parameters: {
+      type: 'object',
+      properties: {
+        token: {
+          type: 'string',
+          description: 'Token symbol, name or alias, e.g. "USDC" or "dollars"',
+          minLength: 1,
+        },
+        to: {
+          type: 'string',
+          description: 'The recipient contact name, address, ENS name or Basename (e.g., sister or gonzalomelov.base.eth)',
+          minLength: 1,
+        },
+        amount: {
+          type: 'string',
+          description: 'The amount to send in token units, e.g. "10.5"',
+          pattern: AMOUNT_PATTERN,
+        },
+      },
+      required: ['token', 'to', 'amount'],
+    },
+  },
+  metadata: { category: 'payments', movesFunds: true, requiresWallet: true },
+  summarize: async (args, context) =>
+    summarizeTransfer(resolveToken(context.chainId, args.token), args, context),
+  handler: async (args, context, confirmed) =>
+    executeTransfer(resolveToken(context.chainId, args.token), args, context, confirmed!),
+});
+
+export const transferUsdc = defineTool<{ to: string; amount: string }>({
+  definition: {
+    name: 'transfer_usdc',
+    description: 'Transfers a specified amount of USDC to a contact, address, ENS name or Basename.',
+    parameters: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'string',
+          description: 'The recipient contact name, address, ENS name or Basename (e.g., sister or gonzalomelov.base.eth)',
+          minLength: 1,
+        },
+        amount: {
+          type: 'string',
+          description: 'The amount of USDC to send, e.g. "10.5"',
+          pattern: AMOUNT_PATTERN,
+        },
+      },
+      required: ['to', 'amount'],
+    },
+  },
+  metadata: { category: 'payments', movesFunds: true, requiresWallet: true },
+  summarize: async (args, context) =>
+    summarizeTransfer(getToken(context.chainId, 'USDC'), args, context),
+  handler: async (args, context, confirmed) =>
+    executeTransfer(getToken(context.chainId, 'USDC'), args, context, confirmed!),
+});
+
+export const tokenTools = [getUsdcBalance, getTokenBalance, transferUsdc, transferToken];
@@ -0,0 +1,72 @@
+import type { Hash, TransactionReceipt } from 'viem';
+import type { Config } from 'wagmi';
+import { getChainConfig } from '@/chains';
+import { executeTransaction } from '@/services/executor';
+import { ToolError } from './errors';
+
+/**
+ * What value-moving tools report back once a transaction is mined
+ */
+export interface TransactionReport {
+  hash: Hash;
+  status: 'success' | 'reverted';
+  block_number: string;
+  gas_used: string;
+  explorer_url: string;
+  message: string;
+}
+
+/**
+ * Waits for the wallet signature, then for the receipt on chainId
+ * Throws cancelled when the user rejects in the wallet and
+ * transaction_failed when signing fails or the transaction reverts
+ */
+export async function submitAndWait(
+  config: Config,
+  chainId: number,
+  send: () => Promise<Hash>
+): Promise<TransactionReport> {
+  const { report } = await submitAndWaitForReceipt(config, chainId, send);
+  return report;
+}
+
+/**
+ * Same as submitAndWait, also handing back the receipt for tools that
+ * read its logs; the receipt holds bigints so it never goes to the model
+ */
+export async function submitAndWaitForReceipt(
+  config: Config,
+  chainId: number,
+  send: () => Promise<Hash>
+): Promise<{ report: TransactionReport; receipt: TransactionReceipt }> {
+  const result = await executeTransaction(config, chainId, send);
+  if (result.status === 'rejected') {
+    throw new ToolError('cancelled', 'The user rejected the transaction in the wallet');
+  }
+
+  const explorerUrl = getChainConfig(chainId).explorerUrl;
+  if (result.status === 'error') {
+    throw new ToolError(
+      'transaction_failed',
+      result.message,
+      result.hash ? { hash: result.hash, explorer_url: `${explorerUrl}/tx/${result.hash}` } : undefined
+    );
+  }
+
+  const { hash, receipt } = result;
+  const report: TransactionReport = {
+    hash,
+    status: receipt.status,
+    block_number: receipt.blockNumber.toString(),
+    gas_used: receipt.gasUsed.toString(),
+    explorer_url: `${explorerUrl}/tx/${hash}`,
+    message:
+      receipt.status === 'success'
+        ? `Transaction confirmed in block ${receipt.blockNumber}`
+        : `Transaction reverted in block ${receipt.blockNumber}`,
+  };
+  if (receipt.status === 'reverted') {
+    throw new ToolError('transaction_failed', report.message, { ...report });
+  }
+  return { report, receipt };
+}
@@ -0,0 +1,126 @@
+import type { Dispatch, SetStateAction } from 'react';
+import type { Address } from 'viem';
+import type { Config, useSwitchChain } from 'wagmi';
+import type { GetBalanceReturnType } from 'wagmi/actions';
+import type { SessionState, SignInResult } from '@/hooks/useSession';
+import type { ActivityItem, ActivitySource } from '@/services/activity';
+import type { CallMonitor } from '@/services/calls';
+import type { MintedNft } from '@/services/nft';
+import type { SignatureRecord } from '@/services/signatures';
+import type { SwapQuoteProvider } from '@/services/swap';
+import type { ConfirmationManager, TransactionSummary } from './confirmation';
+import type { ToolErrorCode } from './errors';
+import type { Coordinates } from './weather';
+
+/**
+ * JSON schema for a single tool parameter
+ */
+export interface ToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: (string | number)[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: ToolParameter;
+  properties?: { [key: string]: ToolParameter };
+  required?: string[];
+}
+
+/**
+ * Definition sent to the Realtime API with session.update
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: { [key: string]: ToolParameter };
+    required: string[];
+  };
+}
+
+export type ToolCategory =
+  | 'memory'
+  | 'weather'
+  | 'wallet'
+  | 'payments'
+  | 'swap'
+  | 'explorer'
+  | 'network'
+  | 'identity'
+  | 'contacts'
+  | 'collectibles';
+
+export interface ToolMetadata {
+  category: ToolCategory;
+  // true for tools that sign a transaction moving value out of the wallet,
+  // these must implement summarize() and wait for the user to confirm
+  movesFunds: boolean;
+  // true for tools that cannot run without a connected wallet
+  requiresWallet: boolean;
+}
+
+/**
+ * Everything a tool handler may read or update in the Console,
+ * refreshed on every render so handlers never see stale values
+ */
+export interface ToolContext {
+  config: Config;
+  confirmations: ConfirmationManager;
+  // chain the wallet is on, every transaction targets it
+  chainId: number;
+  address?: Address;
+  balance?: GetBalanceReturnType;
+  // Sign-In with Ethereum session of the connected wallet
+  session: SessionState;
+  activitySource: ActivitySource;
+  swapProvider: SwapQuoteProvider;
+  calls: CallMonitor;
+  signIn: () => Promise<SignInResult>;
+  signOut: () => Promise<void>;
+  switchChainAsync: ReturnType<typeof useSwitchChain>['switchChainAsync'];
+  setCoords: Dispatch<SetStateAction<Coordinates | null>>;
+  setMarker: Dispatch<SetStateAction<Coordinates | null>>;
+  setShowBalance: Dispatch<SetStateAction<boolean>>;
+  setActivity: Dispatch<SetStateAction<ActivityItem[] | null>>;
+  setMintedNft: Dispatch<SetStateAction<MintedNft | null>>;
+  setSignature: Dispatch<SetStateAction<SignatureRecord | null>>;
+  // set while a recorded session is replayed
+  replay?: ToolReplay;
+}
+
+/**
+ * Results from a recorded session, returned instead of running tools
+ * that reach the wallet, the chain or other services
+ */
+export interface ToolReplay {
+  recordedResult(toolName: string): ToolResult | undefined;
+}
+
+export type ToolArgs = { [key: string]: unknown };
+
+export interface Tool<Args extends ToolArgs = ToolArgs> {
+  definition: ToolDefinition;
+  metadata: ToolMetadata;
+  // tools that move funds get the summary the user confirmed and must execute exactly it
+  handler(args: Args, context: ToolContext, confirmed?: TransactionSummary): Promise<unknown>;
+  summarize?(args: Args, context: ToolContext): Promise<TransactionSummary>;
+}
+
+/**
+ * Envelope every tool call resolves to, so the model and the logs
+ * always see the same shape
+ */
+export type ToolResult<T = unknown> =
+  | { ok: true; data: T }
+  | {
+      ok: false;
+      error: {
+        code: ToolErrorCode;
+        message: string;
+        details?: { [key: string]: unknown };
+      };
+    };
@@ -0,0 +1,104 @@
+import type { ToolDefinition, ToolParameter } from './types';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: ToolParameter['type']) {
+  const actual = typeOf(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+function validateValue(path: string, value: unknown, schema: ToolParameter): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path} must be of type ${schema.type}, received ${typeOf(value)}`];
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      errors.push(`${path} must be a finite number`);
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      errors.push(...validateValue(`${path}[${i}]`, item, schema.items!));
+    });
+  }
+  if (schema.type === 'object' && schema.properties) {
+    errors.push(
+      ...validateObject(
+        path,
+        value as { [key: string]: unknown },
+        schema.properties,
+        schema.required || []
+      )
+    );
+  }
+  return errors;
+}
+
+function validateObject(
+  path: string,
+  value: { [key: string]: unknown },
+  properties: { [key: string]: ToolParameter },
+  required: string[]
+): string[] {
+  const errors: string[] = [];
+  const prefix = path ? `${path}.` : '';
+  for (const key of required) {
+    if (value[key] === undefined || value[key] === null) {
+      errors.push(`${prefix}${key} is required`);
+    }
+  }
+  for (const key in properties) {
+    if (value[key] !== undefined && value[key] !== null) {
+      errors.push(...validateValue(`${prefix}${key}`, value[key], properties[key]));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks model supplied arguments against a tool's JSON schema parameters
+ * Returns a list of human readable problems, empty when the arguments are valid
+ */
+export function validateArgs(
+  parameters: ToolDefinition['parameters'],
+  args: unknown
+): string[] {
+  if (typeOf(args) !== 'object') {
+    return [`arguments must be an object, received ${typeOf(args)}`];
+  }
+  return validateObject(
+    '',
+    args as { [key: string]: unknown },
+    parameters.properties,
+    parameters.required
+  );
+}
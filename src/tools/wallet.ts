@@ -0,0 +1,101 @@
+import { getChainConfig } from '@/chains';
+import { connectWallet as connect, disconnectWallet as disconnect } from '@/services/executor';
+import { lookupName } from '@/services/names';
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+export const getAccountBalance = defineTool({
+  definition: {
+    name: 'get_account_balance',
+    description: 'Retrieves the current account balance of the connected wallet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'wallet', movesFunds: false, requiresWallet: true },
+  handler: async (_args, { address, chainId, balance, setShowBalance }) => {
+    if (!balance) {
+      throw new ToolError('unavailable', 'Unable to fetch balance');
+    }
+    setShowBalance(true); // Set showBalance to true when the tool is called
+    return {
+      address: address,
+      name: (await lookupName(address!, chainId)) ?? null,
+      balance: balance.formatted,
+      symbol: balance.symbol,
+    };
+  },
+});
+
+export const hideAccountBalance = defineTool({
+  definition: {
+    name: 'hide_account_balance',
+    description: 'Hides the account balance display.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'wallet', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { setShowBalance }) => {
+    setShowBalance(false);
+    return { message: 'Account balance hidden' };
+  },
+});
+
+export const connectWallet = defineTool({
+  definition: {
+    name: 'connect_wallet',
+    description: 'Connects or creates a wallet for the user.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'wallet', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { config }) => {
+    const result = await connect(config);
+    if (result.status === 'rejected') {
+      throw new ToolError('cancelled', 'The user closed the wallet without connecting');
+    }
+    if (result.status === 'error') {
+      throw new ToolError('upstream_error', result.message);
+    }
+    return {
+      message: 'Wallet connected',
+      address: result.address,
+      chain: getChainConfig(result.chainId).chain.name,
+    };
+  },
+});
+
+export const disconnectWallet = defineTool({
+  definition: {
+    name: 'disconnect_wallet',
+    description: 'Disconnects the currently connected wallet.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  metadata: { category: 'wallet', movesFunds: false, requiresWallet: false },
+  handler: async (_args, { config, address }) => {
+    if (!address) {
+      return { message: 'No wallet connected' };
+    }
+    await disconnect(config);
+    return { message: 'Wallet disconnected' };
+  },
+});
+
+export const walletTools = [
+  getAccountBalance,
+  hideAccountBalance,
+  connectWallet,
+  disconnectWallet,
+];
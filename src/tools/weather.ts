@@ -0,0 +1,80 @@
+import { ToolError } from './errors';
+import { defineTool } from './registry';
+
+/**
+ * Type for result from get_weather() function call
+ */
+export interface Coordinates {
+  lat: number;
+  lng: number;
+  location?: string;
+  temperature?: {
+    value: number;
+    units: string;
+  };
+  wind_speed?: {
+    value: number;
+    units: string;
+  };
+}
+
+export const getWeather = defineTool<{
+  lat: number;
+  lng: number;
+  location: string;
+}>({
+  definition: {
+    name: 'get_weather',
+    description:
+      'Retrieves the weather for a given lat, lng coordinate pair. Specify a label for the location.',
+    parameters: {
+      type: 'object',
+      properties: {
+        lat: {
+          type: 'number',
+          description: 'Latitude',
+          minimum: -90,
+          maximum: 90,
+        },
+        lng: {
+          type: 'number',
+          description: 'Longitude',
+          minimum: -180,
+          maximum: 180,
+        },
+        location: {
+          type: 'string',
+          description: 'Name of the location',
+        },
+      },
+      required: ['lat', 'lng', 'location'],
+    },
+  },
+  metadata: { category: 'weather', movesFunds: false, requiresWallet: false },
+  handler: async ({ lat, lng, location }, { setMarker, setCoords }) => {
+    setMarker({ lat, lng, location });
+    setCoords({ lat, lng, location });
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lng),
+      current: 'temperature_2m,wind_speed_10m',
+    });
+    const result = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+    if (!result.ok) {
+      throw new ToolError('upstream_error', `Weather service returned status ${result.status}`);
+    }
+    const json = await result.json();
+    const temperature = {
+      value: json.current.temperature_2m as number,
+      units: json.current_units.temperature_2m as string,
+    };
+    const wind_speed = {
+      value: json.current.wind_speed_10m as number,
+      units: json.current_units.wind_speed_10m as string,
+    };
+    setMarker({ lat, lng, location, temperature, wind_speed });
+    return json;
+  },
+});
+
+export const weatherTools = [getWeather];
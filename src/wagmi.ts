@@ -8,6 +8,7 @@ import {
 import { useMemo } from 'react';
 import { http, createConfig } from 'wagmi';
 import { base, baseSepolia } from 'wagmi/chains';
+import { SUPPORTED_CHAINS } from './chains';
 import { NEXT_PUBLIC_WC_PROJECT_ID } from './config';
 
 export function useWagmiConfig() {
@@ -37,14 +38,14 @@ export function useWagmiConfig() {
     );
 
     const wagmiConfig = createConfig({
-      chains: [baseSepolia], // base, 
+      chains: SUPPORTED_CHAINS,
       // turn off injected provider discovery
       multiInjectedProviderDiscovery: false,
       connectors,
       ssr: true,
       transports: {
-        // [base.id]: http(),
         [baseSepolia.id]: http(),
+        [base.id]: http(),
       },
     });
 